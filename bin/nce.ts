@@ -1,9 +1,11 @@
 #!/usr/bin/env node
+import chalk from 'chalk';
 import { dirname } from 'node:path';
 import process from 'node:process';
 import { fileURLToPath } from 'node:url';
 import updateNotifier, { Package } from 'update-notifier';
 
+import { getExitCode } from '../lib/errors.js';
 import { nce } from '../lib/index.js';
 import { getJson, joinPath } from '../lib/utils.js';
 import { cli } from '../lib/yargs.js';
@@ -28,5 +30,8 @@ import { cli } from '../lib/yargs.js';
     });
   }
 
-  await nce(cliArgs);
+  await nce(cliArgs).catch((error: unknown) => {
+    process.stderr.write(`${chalk.red('✖')} ${error instanceof Error ? error.message : String(error)}\n`);
+    process.exitCode = getExitCode(error);
+  });
 })();
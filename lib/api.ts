@@ -0,0 +1,37 @@
+import { normalize } from 'node:path';
+
+import { debug } from './debug.js';
+import {
+  computeEngines,
+  detectLockFilename,
+  readPackageFile,
+  readPackageLockFile,
+  validateDependencyTypesSelection,
+} from './tasks.js';
+import { CheckProjectOptions, CheckProjectResult, packageJSONFilename } from './types.js';
+
+export const checkProject = async (dir: string, options: CheckProjectOptions = {}): Promise<CheckProjectResult> => {
+  const workingDir = normalize(process.cwd());
+  const path = normalize(dir);
+
+  const packageJson = await readPackageFile({ path, workingDir, filename: packageJSONFilename, debug });
+  const filename = await detectLockFilename({ path, workingDir });
+  validateDependencyTypesSelection({ filename, omit: options.omit, only: options.only });
+  const lockfile = await readPackageLockFile({ path, workingDir, filename, debug });
+
+  return {
+    ...computeEngines({
+      packageJson: packageJson.data,
+      lockfile: lockfile.data,
+      engines: options.engines,
+      ignore: options.ignore,
+      overrides: options.overrides,
+      omit: options.omit,
+      only: options.only,
+      rangeStyle: options.rangeStyle,
+      debug,
+    }),
+    packageJson,
+    lockfile,
+  };
+};
@@ -0,0 +1,134 @@
+import { createHash } from 'node:crypto';
+import fs from 'node:fs/promises';
+import { basename, dirname } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import semver from 'semver';
+
+import type {
+  CacheableComputeEnginesResult,
+  CachedComputeEnginesResult,
+  ComputeEnginesOptions,
+  EngineConstraintChange,
+} from './types.js';
+import { getJson, joinPath, stringifyJson, writeText } from './utils.js';
+
+export const cacheDirectory = 'node_modules/.cache/nce' as const;
+
+export const getNceVersion = async (): Promise<string> => {
+  const parentOfDistFolder = process.env['NODE_ENV'] !== 'test' ? '../' : '';
+  const pathToFile = joinPath(dirname(fileURLToPath(import.meta.url)), `${parentOfDistFolder}../package.json`);
+  return (await getJson<{ version: string }>(pathToFile)).version;
+};
+
+export const hashFile = async (file: string): Promise<string> =>
+  createHash('sha256')
+    .update(await fs.readFile(file))
+    .digest('hex');
+
+const lockfileHashPrefixLength = 16;
+
+/**
+ * Hash every input of `computeEngines` along with the nce version, so that upgrading nce invalidates cached results.
+ * The lock file is keyed by the hash of its raw content, so that a cache hit does not need to parse it, and prefixes the
+ * key so that results of previous lock files can be pruned.
+ */
+export const getCacheKey = ({
+  version,
+  lockfileHash,
+  packageFilename,
+  packageJson,
+  engines,
+  ignore,
+  overrides,
+  omit,
+  only,
+}: Omit<ComputeEnginesOptions, 'lockfile'> & {
+  version: string;
+  lockfileHash: string;
+  packageFilename: string;
+}): string => {
+  const hash = createHash('sha256')
+    .update(
+      JSON.stringify({
+        version,
+        lockfileHash,
+        packageFilename,
+        packageJsonEngines: packageJson.engines,
+        engines,
+        ignore,
+        overrides,
+        omit,
+        only,
+      }),
+    )
+    .digest('hex');
+
+  return `${lockfileHash.slice(0, lockfileHashPrefixLength)}-${hash}`;
+};
+
+export const getCacheFile = (path: string, key: string): string => joinPath(path, cacheDirectory, `${key}.json`);
+
+/**
+ * Cache only in installed projects, so that computing engines never creates a `node_modules` folder.
+ */
+export const hasNodeModules = async (path: string): Promise<boolean> =>
+  fs.stat(joinPath(path, 'node_modules')).then(
+    stats => stats.isDirectory(),
+    () => false,
+  );
+
+export const serializeComputeEnginesResult = (
+  result: CacheableComputeEnginesResult,
+  version: string,
+): CachedComputeEnginesResult => ({
+  version,
+  ranges: [...result.ranges].map(([engine, { from, to }]) => [engine, { ...(from && { from: from.raw }), to: to.raw }]),
+  explanations: [...result.explanations],
+  conflicts: result.conflicts,
+  ignoredPackages: result.ignoredPackages,
+  overriddenPackages: result.overriddenPackages,
+});
+
+export const deserializeComputeEnginesResult = (cached: CachedComputeEnginesResult): CacheableComputeEnginesResult => ({
+  ranges: new Map(
+    cached.ranges.map(([engine, { from, to }]): [string, EngineConstraintChange] => [
+      engine,
+      { from: from ? new semver.Range(from) : undefined, to: new semver.Range(to) },
+    ]),
+  ),
+  explanations: new Map(cached.explanations),
+  conflicts: cached.conflicts,
+  ignoredPackages: cached.ignoredPackages,
+  overriddenPackages: cached.overriddenPackages,
+});
+
+export const readCachedResult = async (
+  file: string,
+  version: string,
+): Promise<CacheableComputeEnginesResult | undefined> => {
+  const cached = await getJson<CachedComputeEnginesResult>(file).catch(() => undefined);
+  return cached?.version === version ? deserializeComputeEnginesResult(cached) : undefined;
+};
+
+export const writeCachedResult = async (
+  file: string,
+  version: string,
+  result: CacheableComputeEnginesResult,
+): Promise<void> => {
+  await fs.mkdir(dirname(file), { recursive: true });
+  await writeText(file, stringifyJson(serializeComputeEnginesResult(result, version)));
+};
+
+/**
+ * Remove cached results of other lock files than the one of the given cache file.
+ */
+export const pruneCachedResults = async (file: string): Promise<string[]> => {
+  const directory = dirname(file);
+  const prefix = basename(file).replace(/-.*$/, '-');
+  const staleFiles = (await fs.readdir(directory).catch(() => []))
+    .filter(entry => entry.endsWith('.json') && !entry.startsWith(prefix))
+    .map(entry => joinPath(directory, entry));
+
+  await Promise.all(staleFiles.map(staleFile => fs.rm(staleFile, { force: true })));
+  return staleFiles;
+};
@@ -0,0 +1,100 @@
+import type { AnySchema, ValidateFunction } from 'ajv';
+import chalk from 'chalk';
+import type { Debugger } from 'debug';
+import { dirname, resolve } from 'node:path';
+import { fileURLToPath, pathToFileURL } from 'node:url';
+
+import { SchemaValidationError } from './errors.js';
+import { ajv, nceConfigSchema } from './json-schema-validator.js';
+import { generateSchemaValidationMessage, getSchemaValidationDiagnostics } from './schema-diagnostics.js';
+import { FileObject, NceConfig, packageJSONFilename, PackageJSONSchema } from './types.js';
+import { fileExists, getJson, getRelativePath, getText, getYaml, joinPath } from './utils.js';
+
+export const nceConfigKey = 'nce' as const;
+export const nceConfigFilenames = ['.ncerc.json', '.ncerc.yaml', '.ncerc.yml', 'nce.config.js'] as const;
+
+const readConfigFile = async (filename: string, path: string): Promise<unknown> => {
+  if (filename.endsWith('.json')) {
+    return getJson(path);
+  }
+
+  if (filename.endsWith('.yaml') || filename.endsWith('.yml')) {
+    return getYaml(path);
+  }
+
+  const module = await import(pathToFileURL(resolve(path)).href);
+  return module.default;
+};
+
+export const findConfigFile = async ({
+  path,
+  workingDir,
+}: {
+  path: string;
+  workingDir: string;
+}): Promise<FileObject<unknown> | undefined> => {
+  let dir = resolve(workingDir, path);
+
+  while (true) {
+    for (const filename of nceConfigFilenames) {
+      const relativePath = getRelativePath({ path: joinPath(dir, filename), workingDir });
+
+      if (await fileExists(relativePath)) {
+        return { filename, relativePath, data: await readConfigFile(filename, relativePath) };
+      }
+    }
+
+    const relativePath = getRelativePath({ path: joinPath(dir, packageJSONFilename), workingDir });
+    const packageJson = await getJson<PackageJSONSchema & { [nceConfigKey]?: unknown }>(relativePath).catch(
+      () => undefined,
+    );
+
+    if (packageJson && nceConfigKey in packageJson) {
+      return { filename: packageJSONFilename, relativePath, data: packageJson[nceConfigKey] };
+    }
+
+    const parentDir = dirname(dir);
+
+    if (parentDir === dir) {
+      return undefined;
+    }
+
+    dir = parentDir;
+  }
+};
+
+export const loadConfig = async ({
+  path,
+  workingDir,
+  debug,
+}: {
+  path: string;
+  workingDir: string;
+  debug: Debugger;
+}): Promise<NceConfig> => {
+  const configFile = await findConfigFile({ path, workingDir });
+
+  if (!configFile) {
+    debug(chalk.white('No configuration file found'));
+    return {};
+  }
+
+  const { relativePath = configFile.filename, data } = configFile;
+  debug(`${chalk.white('Load configuration from')} ${chalk.blue(relativePath)}`);
+
+  const pathToFile = joinPath(dirname(fileURLToPath(import.meta.url)), nceConfigSchema);
+  const nceConfigSchemaObj = await getJson<AnySchema>(getRelativePath({ path: pathToFile, workingDir }));
+  const validateFn: ValidateFunction<NceConfig> = ajv.compile<NceConfig>(nceConfigSchemaObj);
+
+  if (!validateFn(data)) {
+    const diagnostics = getSchemaValidationDiagnostics({
+      errors: validateFn.errors || [],
+      path: relativePath,
+      source: configFile.filename.endsWith('.js') ? undefined : await getText(relativePath).catch(() => undefined),
+      pointerPrefix: packageJSONFilename === configFile.filename ? [nceConfigKey] : [],
+    });
+    throw new SchemaValidationError(generateSchemaValidationMessage(diagnostics), relativePath, diagnostics);
+  }
+
+  return data;
+};
@@ -0,0 +1,49 @@
+import { nodeModulesDirname } from './manifests.js';
+import type { LockPackage } from './types.js';
+import { resolveDependencyPath } from './workspaces.js';
+
+export const getPackageNameFromPath = (path: string): string => {
+  const index = path.lastIndexOf(`${nodeModulesDirname}/`);
+  return -1 === index ? path : path.slice(index + nodeModulesDirname.length + 1);
+};
+
+export const getPackageNameFromKey = (key: string): string => {
+  const name = getPackageNameFromPath(key);
+  const index = name.indexOf('@', 1);
+  return -1 === index ? name : name.slice(0, index);
+};
+
+export const getDependencyChains = (
+  packages: Record<string, LockPackage>,
+  root: string = '',
+): Map<string, string[]> => {
+  const chains = new Map<string, string[]>([[root, [root]]]);
+  const queue: string[] = [root];
+
+  while (queue.length > 0) {
+    const path = queue.shift() as string;
+    const pkg = packages[path];
+
+    if (!pkg) {
+      continue;
+    }
+
+    const dependencies = {
+      ...pkg.dependencies,
+      ...pkg.optionalDependencies,
+      ...pkg.peerDependencies,
+      ...(path === root ? pkg.devDependencies : {}),
+    };
+
+    for (const name of Object.keys(dependencies)) {
+      const dependencyPath = resolveDependencyPath(packages, path, name);
+
+      if (dependencyPath !== undefined && !chains.has(dependencyPath)) {
+        chains.set(dependencyPath, [...(chains.get(path) as string[]), dependencyPath]);
+        queue.push(dependencyPath);
+      }
+    }
+  }
+
+  return chains;
+};
@@ -0,0 +1,69 @@
+import type { Range } from 'semver';
+
+import type { EngineConstraintConflict, EngineConstraintKey, SchemaValidationDiagnostic } from './types.js';
+
+export const ExitCodes = {
+  success: 0,
+  error: 1,
+  rangeConflict: 2,
+  outdatedEngines: 3,
+  schemaValidation: 4,
+  missingFile: 5,
+  unsatisfiedRuntime: 6,
+} as const;
+export type ExitCode = typeof ExitCodes[keyof typeof ExitCodes];
+
+export class RangeConflictError extends Error {
+  constructor(readonly r1: Range, readonly r2: Range) {
+    super(`Range ${r1.raw} does not intersect with ${r2.raw}.`);
+    this.name = 'RangeConflictError';
+  }
+}
+
+export class EnginesConflictError extends Error {
+  readonly exitCode: ExitCode = ExitCodes.rangeConflict;
+
+  constructor(message: string, readonly conflicts: EngineConstraintConflict[]) {
+    super(message);
+    this.name = 'EnginesConflictError';
+  }
+}
+
+export class OutdatedEnginesError extends Error {
+  readonly exitCode: ExitCode = ExitCodes.outdatedEngines;
+
+  constructor(readonly paths: string[]) {
+    super(`Engines range constraints are out of date in ${paths.join(', ')}.`);
+    this.name = 'OutdatedEnginesError';
+  }
+}
+
+export class SchemaValidationError extends Error {
+  readonly exitCode: ExitCode = ExitCodes.schemaValidation;
+
+  constructor(message: string, readonly path: string, readonly diagnostics: SchemaValidationDiagnostic[] = []) {
+    super(message);
+    this.name = 'SchemaValidationError';
+  }
+}
+
+export class MissingFileError extends Error {
+  readonly exitCode: ExitCode = ExitCodes.missingFile;
+
+  constructor(readonly path: string) {
+    super(`${path} is not defined.`);
+    this.name = 'MissingFileError';
+  }
+}
+
+export class UnsatisfiedRuntimeError extends Error {
+  readonly exitCode: ExitCode = ExitCodes.unsatisfiedRuntime;
+
+  constructor(readonly engines: EngineConstraintKey[]) {
+    super(`Current ${engines.join(', ')} version(s) do not satisfy engines range constraints.`);
+    this.name = 'UnsatisfiedRuntimeError';
+  }
+}
+
+export const getExitCode = (error: unknown): ExitCode =>
+  error instanceof Error && 'exitCode' in error ? (error as { exitCode: ExitCode }).exitCode : ExitCodes.error;
@@ -1,35 +1,106 @@
 import { normalize } from 'node:path';
 
+import { loadConfig } from './config.js';
 import { debug, enableNamespaces, namespaces } from './debug.js';
+import { generateJSONOutput, printJSONOutput } from './json-output.js';
+import { loadNodeReleaseSchedule } from './release-schedule.js';
 import { renderer } from './renderer.js';
-import { cliCommandTask } from './tasks.js';
-import { CLIContext, packageJSONFilename, packageLockJSONFilename } from './types.js';
+import { cliCommandTask, detectLockFilename } from './tasks.js';
+import { CLIContext, packageJSONFilename } from './types.js';
+import { watchProject } from './watch.js';
 import type { CLIArgs } from './yargs.js';
 
+export { checkProject } from './api.js';
+export { computeEngines } from './tasks.js';
+export type {
+  CheckProjectOptions,
+  CheckProjectResult,
+  ComputeEnginesOptions,
+  ComputeEnginesResult,
+  EngineConstraintChange,
+  EngineConstraintConflict,
+  EngineConstraintExplanation,
+  EngineConstraintKey,
+} from './types.js';
+
 export const nce = async (args: CLIArgs): Promise<CLIContext> => {
   const cliArgs = args;
+  const workingDir = normalize(process.cwd());
+  const path = normalize(cliArgs.path || '');
+
+  const debugNamespaces = namespaces();
+  if (cliArgs.debug) {
+    enableNamespaces(debugNamespaces);
+  }
+
+  const config = await loadConfig({ path, workingDir, debug });
+
+  const releaseSchedule = await loadNodeReleaseSchedule().catch(() => undefined);
 
   let context: CLIContext = {
-    workingDir: normalize(process.cwd()),
-    path: normalize(cliArgs.path || ''),
-    update: cliArgs.update || false,
+    workingDir,
+    path,
+    update: cliArgs.update ?? config.update ?? false,
+    updatePolicy: cliArgs.updatePolicy || config.updatePolicy || 'exact',
+    rangeStyle: cliArgs.rangeStyle || config.rangeStyle || 'preserve',
+    dryRun: cliArgs.dryRun || !!cliArgs.patchFile,
+    patchFile: cliArgs.patchFile,
+    sort: cliArgs.sort || false,
+    check: cliArgs.check || false,
+    workspaces: cliArgs.workspaces || false,
+    explain: cliArgs.explain || cliArgs._?.[0] === 'explain',
+    doctor: cliArgs._?.[0] === 'doctor',
+    refreshReleaseSchedule: cliArgs._?.[0] === 'refresh-schedule',
+    dropEol: cliArgs.dropEol ?? config.dropEol ?? false,
+    date: cliArgs.date || new Date(),
+    cache: cliArgs.cache ?? config.cache ?? true,
+    format: cliArgs.format || config.format || 'table',
     verbose: cliArgs.verbose || false,
     quiet: cliArgs.quiet || false,
     debug: cliArgs.debug || false,
-    engines: cliArgs.engines,
+    engines: cliArgs.engines?.length ? cliArgs.engines : config.engines,
+    ignore: cliArgs.ignore || config.ignore || [],
+    overrides: config.overrides || {},
+    omit: cliArgs.omit || config.omit || [],
+    only: cliArgs.only || config.only,
+    pins: !!cliArgs.pin || (cliArgs.pins ?? config.pins ?? false),
+    pinVersions: cliArgs.pin || {},
     packageObject: { filename: packageJSONFilename },
-    packageLockObject: { filename: packageLockJSONFilename },
+    packageLockObject: { filename: config.lockfile || (await detectLockFilename({ path, workingDir })) },
+    ...(releaseSchedule && { releaseSchedule }),
   };
 
-  const options = {
-    ...renderer({ quiet: context.quiet, debug: context.debug, verbose: context.verbose }),
-    ctx: context,
+  const isJSONFormat = 'json' === context.format;
+  const run = (ctx: CLIContext): Promise<CLIContext> => {
+    const options = {
+      ...renderer({ quiet: ctx.quiet || isJSONFormat, debug: ctx.debug, verbose: ctx.verbose }),
+      ctx,
+    };
+
+    if (!isJSONFormat) {
+      return cliCommandTask(options, debug).run();
+    }
+
+    return cliCommandTask(options, debug)
+      .run()
+      .then(
+        result => {
+          printJSONOutput(generateJSONOutput(result));
+          return result;
+        },
+        error => {
+          printJSONOutput(generateJSONOutput(ctx, error));
+          throw error;
+        },
+      );
   };
 
-  const debugNamespaces = namespaces();
-  if (context.debug) {
-    enableNamespaces(debugNamespaces);
+  if (!cliArgs.watch) {
+    return run(context);
   }
 
-  return cliCommandTask(options, debug).run();
+  const controller = new AbortController();
+  process.once('SIGINT', () => controller.abort());
+
+  return watchProject({ context, run, signal: controller.signal, quiet: isJSONFormat || context.quiet });
 };
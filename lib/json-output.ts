@@ -0,0 +1,82 @@
+import { SchemaValidationError } from './errors.js';
+import { getNodeReleases } from './release-schedule.js';
+import { getDropEndOfLifeWarning, getRangeChangeType, humanizeRange } from './tasks.js';
+import type { CheckCommandContext, JSONOutput, JSONOutputEngine, JSONOutputResult } from './types.js';
+
+export const jsonOutputVersion = 1 as const;
+
+const generateJSONOutputResult = (ctx: CheckCommandContext, error?: unknown): JSONOutputResult => {
+  const {
+    packageObject,
+    packageLockObject,
+    ranges,
+    explanations,
+    conflicts,
+    ignoredPackages,
+    overriddenPackages,
+    versionPins,
+    runtimeVersions,
+    skippedRuntimes,
+    unsatisfiedPackages,
+    releaseSchedule,
+    date,
+    rangeStyle,
+    diff,
+    workspaceContexts,
+  } = ctx;
+  const engines: Record<string, JSONOutputEngine> = {};
+  const dropEndOfLifeWarning = getDropEndOfLifeWarning(ctx);
+
+  for (const [engine, { from, to }] of ranges?.entries() || []) {
+    const fromHumanized = humanizeRange(from, rangeStyle);
+    const toHumanized = humanizeRange(to, rangeStyle);
+    const changed = fromHumanized !== toHumanized;
+    const invalid = explanations?.get(engine)?.invalid || [];
+
+    engines[engine] = {
+      from: from?.raw || '*',
+      to: to.raw || '*',
+      fromHumanized,
+      toHumanized,
+      changed,
+      ...(changed && { change: getRangeChangeType({ from, to }) }),
+      ...('node' === engine && releaseSchedule && { releases: getNodeReleases(to, releaseSchedule, date) }),
+      warnings: [
+        ...invalid.map(({ path, range }) => `${path || '(root)'} declares an invalid range: ${range}`),
+        ...('node' === engine && dropEndOfLifeWarning ? [dropEndOfLifeWarning] : []),
+      ],
+    };
+  }
+
+  return {
+    packageFile: packageObject.relativePath || packageObject.filename,
+    lockFile: packageLockObject.relativePath || packageLockObject.filename,
+    engines,
+    ...(conflicts ? { conflicts } : {}),
+    ...(ignoredPackages && ignoredPackages.length > 0 ? { ignoredPackages } : {}),
+    ...(overriddenPackages && overriddenPackages.length > 0 ? { overriddenPackages } : {}),
+    ...(versionPins ? { versionPins } : {}),
+    ...(runtimeVersions ? { runtimeVersions } : {}),
+    ...(skippedRuntimes && skippedRuntimes.length > 0 ? { skippedRuntimes } : {}),
+    ...(unsatisfiedPackages ? { unsatisfiedPackages } : {}),
+    ...(diff ? { diff } : {}),
+    ...(workspaceContexts ? { workspaces: workspaceContexts.map(context => generateJSONOutputResult(context)) } : {}),
+    ...(error instanceof Error
+      ? {
+          error: {
+            name: error.name,
+            message: error.message,
+            ...(error instanceof SchemaValidationError && { diagnostics: error.diagnostics }),
+          },
+        }
+      : {}),
+  };
+};
+
+export const generateJSONOutput = (ctx: CheckCommandContext, error?: unknown): JSONOutput => ({
+  version: jsonOutputVersion,
+  ...generateJSONOutputResult(ctx, error),
+});
+
+export const printJSONOutput = (output: JSONOutput, stdout: NodeJS.WriteStream = process.stdout): boolean =>
+  stdout.write(`${JSON.stringify(output, null, 2)}\n`);
@@ -3,6 +3,9 @@ import addFormats from 'ajv-formats';
 
 export const packageJSONSchema = '../schemas/schema-package.json' as const;
 export const packageLockJSONSchema = '../schemas/schema-package-lock.json' as const;
+export const pnpmLockYAMLSchema = '../schemas/schema-pnpm-lock.json' as const;
+export const outputJSONSchema = '../schemas/schema-output-v1.json' as const;
+export const nceConfigSchema = '../schemas/schema-nce-config.json' as const;
 
 // @ts-ignore
 export const ajv = addFormats(
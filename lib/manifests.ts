@@ -0,0 +1,109 @@
+import type { Debugger } from 'debug';
+
+import type { LockPackageEngines } from './types.js';
+import { getJson, joinPath, listDirectories } from './utils.js';
+
+export const nodeModulesDirname = 'node_modules' as const;
+export const yarnUnpluggedDirname = '.yarn/unplugged' as const;
+
+export type InstalledManifest = {
+  name?: string;
+  version?: string;
+  engines?: LockPackageEngines;
+};
+
+const readManifest = async (path: string): Promise<InstalledManifest | undefined> =>
+  getJson<InstalledManifest>(joinPath(path, 'package.json')).catch(() => undefined);
+
+const listPackageDirectories = async (nodeModulesPath: string): Promise<string[]> => {
+  const packageDirectories: string[] = [];
+
+  for (const dirname of await listDirectories(nodeModulesPath)) {
+    if (dirname.startsWith('.')) {
+      continue;
+    }
+
+    if (dirname.startsWith('@')) {
+      const scopedDirnames = await listDirectories(joinPath(nodeModulesPath, dirname));
+      packageDirectories.push(...scopedDirnames.map(scopedDirname => `${dirname}/${scopedDirname}`));
+    } else {
+      packageDirectories.push(dirname);
+    }
+  }
+
+  return packageDirectories;
+};
+
+/**
+ * Walk the node_modules tree of a project and read every installed package manifest.
+ * Keys are lockfile-like paths, e.g. `node_modules/a/node_modules/b`.
+ */
+export const getInstalledManifests = async ({
+  path,
+  debug,
+  prefix = '',
+}: {
+  path: string;
+  debug: Debugger;
+  prefix?: string;
+}): Promise<Map<string, InstalledManifest>> => {
+  const manifests = new Map<string, InstalledManifest>();
+  const nodeModulesPrefix = `${prefix}${nodeModulesDirname}/`;
+
+  for (const packageDirectory of await listPackageDirectories(joinPath(path, prefix, nodeModulesDirname))) {
+    const packagePath = `${nodeModulesPrefix}${packageDirectory}`;
+    const manifest = await readManifest(joinPath(path, packagePath));
+
+    if (!manifest) {
+      debug(`No manifest found in ${packagePath}`);
+      continue;
+    }
+
+    manifests.set(packagePath, manifest);
+    const nestedManifests = await getInstalledManifests({ path, debug, prefix: `${packagePath}/` });
+    nestedManifests.forEach((nestedManifest, nestedPath) => manifests.set(nestedPath, nestedManifest));
+  }
+
+  return manifests;
+};
+
+export const getUnpluggedManifests = async ({
+  path,
+  debug,
+}: {
+  path: string;
+  debug: Debugger;
+}): Promise<Map<string, InstalledManifest>> => {
+  const manifests = new Map<string, InstalledManifest>();
+
+  for (const unpluggedDirectory of await listDirectories(joinPath(path, yarnUnpluggedDirname))) {
+    const unpluggedManifests = await getInstalledManifests({
+      path,
+      debug,
+      prefix: `${yarnUnpluggedDirname}/${unpluggedDirectory}/`,
+    });
+    unpluggedManifests.forEach((manifest, manifestPath) => manifests.set(manifestPath, manifest));
+  }
+
+  return manifests;
+};
+
+/**
+ * Index installed manifests by `name@version`, keeping the shallowest install path of each.
+ */
+export const indexManifestsByVersion = (
+  manifests: Map<string, InstalledManifest>,
+): Map<string, [string, InstalledManifest]> => {
+  const index = new Map<string, [string, InstalledManifest]>();
+
+  for (const [path, manifest] of manifests.entries()) {
+    const key = `${manifest.name}@${manifest.version}`;
+    const existing = index.get(key);
+
+    if (!existing || existing[0].length > path.length) {
+      index.set(key, [path, manifest]);
+    }
+  }
+
+  return index;
+};
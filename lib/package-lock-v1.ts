@@ -0,0 +1,67 @@
+import chalk from 'chalk';
+import type { Debugger } from 'debug';
+
+import { InstalledManifest, nodeModulesDirname } from './manifests.js';
+import type { LockPackage } from './types.js';
+
+export type PackageLockV1Dependency = {
+  version?: string;
+  dev?: boolean;
+  optional?: boolean;
+  requires?: Record<string, string>;
+  dependencies?: Record<string, PackageLockV1Dependency>;
+};
+export type PackageLockV1JSONSchema = {
+  lockfileVersion?: number;
+  dependencies: Record<string, PackageLockV1Dependency>;
+};
+
+const walkDependencies = ({
+  dependencies,
+  prefix,
+  manifests,
+  packages,
+  debug,
+}: {
+  dependencies: Record<string, PackageLockV1Dependency>;
+  prefix: string;
+  manifests: Map<string, InstalledManifest>;
+  packages: Record<string, LockPackage>;
+  debug: Debugger;
+}): void => {
+  for (const [name, dependency] of Object.entries(dependencies)) {
+    const path = `${prefix}${nodeModulesDirname}/${name}`;
+    const manifest = manifests.get(path);
+
+    if (!manifest) {
+      debug(`${chalk.white('Package')} ${chalk.gray(path)} ${chalk.white('is not installed')}`);
+    }
+
+    const { version, dev, optional, requires } = dependency;
+    packages[path] = {
+      engines: manifest?.engines || {},
+      ...(version ? { version } : {}),
+      ...(requires ? { dependencies: requires } : {}),
+      ...(dev ? { dev } : {}),
+      ...(optional ? { optional } : {}),
+    };
+
+    if (dependency.dependencies) {
+      walkDependencies({ dependencies: dependency.dependencies, prefix: `${path}/`, manifests, packages, debug });
+    }
+  }
+};
+
+export const packageLockV1ToPackages = ({
+  data,
+  manifests,
+  debug,
+}: {
+  data: PackageLockV1JSONSchema;
+  manifests: Map<string, InstalledManifest>;
+  debug: Debugger;
+}): Record<string, LockPackage> => {
+  const packages: Record<string, LockPackage> = {};
+  walkDependencies({ dependencies: data.dependencies, prefix: '', manifests, packages, debug });
+  return packages;
+};
@@ -0,0 +1,147 @@
+import type { LockPackage, LockPackageEngines } from './types.js';
+
+export type PnpmLockPackage = {
+  engines?: LockPackageEngines;
+  dev?: boolean;
+  optional?: boolean;
+};
+export type PnpmLockSnapshot = {
+  dependencies?: Record<string, string>;
+  optionalDependencies?: Record<string, string>;
+  optional?: boolean;
+};
+export type PnpmLockImporterDependencies = Record<string, string | { version: string }>;
+export type PnpmLockImporter = {
+  dependencies?: PnpmLockImporterDependencies;
+  devDependencies?: PnpmLockImporterDependencies;
+  optionalDependencies?: PnpmLockImporterDependencies;
+};
+export type PnpmLockYAMLSchema = {
+  lockfileVersion: string | number;
+  importers?: Record<string, PnpmLockImporter>;
+  packages?: Record<string, PnpmLockPackage>;
+  snapshots?: Record<string, PnpmLockSnapshot>;
+};
+
+export const getPnpmLockMajorVersion = (lockfileVersion: string | number): number => parseInt(`${lockfileVersion}`, 10);
+
+export const getPnpmPackageId = (key: string, lockfileVersion: string | number): string => {
+  const id = key.replace(/^\//, '').replace(/\(.*\)$/, '');
+
+  if (getPnpmLockMajorVersion(lockfileVersion) < 6) {
+    const versionSeparatorIndex = id.indexOf('/', id.startsWith('@') ? id.indexOf('/') + 1 : 0);
+    return -1 === versionSeparatorIndex
+      ? id
+      : `${id.slice(0, versionSeparatorIndex)}@${id.slice(versionSeparatorIndex + 1).replace(/_.*$/, '')}`;
+  }
+
+  return id;
+};
+
+/**
+ * Resolve a `name: version` dependency of a lockfile v9 to a package id, aliases being versioned as `real-name@version`.
+ */
+export const getPnpmDependencyId = (name: string, version: string): string | undefined => {
+  if (/^(link|file|workspace):/.test(version)) {
+    return undefined;
+  }
+
+  const id = version.replace(/\(.*\)$/, '');
+  return id.includes('@') ? id : `${name}@${id}`;
+};
+
+const collectPnpmDependencyIds = (
+  dependencies: [string, string][],
+  snapshotsById: Map<string, PnpmLockSnapshot[]>,
+): Set<string> => {
+  const ids = new Set<string>();
+  const queue = [...dependencies];
+
+  while (queue.length > 0) {
+    const [name, version] = queue.shift() as [string, string];
+    const id = getPnpmDependencyId(name, version);
+
+    if (!id || ids.has(id)) {
+      continue;
+    }
+
+    ids.add(id);
+    (snapshotsById.get(id) || []).forEach(snapshot =>
+      queue.push(...Object.entries({ ...snapshot.dependencies, ...snapshot.optionalDependencies })),
+    );
+  }
+
+  return ids;
+};
+
+const getImporterDependencies = (
+  importers: Record<string, PnpmLockImporter>,
+  types: (keyof PnpmLockImporter)[],
+): [string, string][] =>
+  Object.values(importers).flatMap(importer =>
+    types.flatMap(type =>
+      Object.entries(importer[type] || {}).map(([name, value]): [string, string] => [
+        name,
+        typeof value === 'string' ? value : value.version,
+      ]),
+    ),
+  );
+
+/**
+ * Lockfile v9 packages are not marked as dev or optional: dev packages are the ones only reachable from the
+ * `devDependencies` of importers, optional packages the ones whose snapshots are all optional.
+ */
+const getPnpmDependencyTypes = ({
+  lockfileVersion,
+  importers = {},
+  snapshots = {},
+}: PnpmLockYAMLSchema): Map<string, Pick<PnpmLockPackage, 'dev' | 'optional'>> => {
+  const snapshotsById = new Map<string, PnpmLockSnapshot[]>();
+
+  for (const [key, snapshot] of Object.entries(snapshots)) {
+    const id = getPnpmPackageId(key, lockfileVersion);
+    snapshotsById.set(id, [...(snapshotsById.get(id) || []), snapshot]);
+  }
+
+  const prodIds = collectPnpmDependencyIds(
+    getImporterDependencies(importers, ['dependencies', 'optionalDependencies']),
+    snapshotsById,
+  );
+  const devIds = collectPnpmDependencyIds(getImporterDependencies(importers, ['devDependencies']), snapshotsById);
+
+  return new Map(
+    [...snapshotsById].map(([id, idSnapshots]) => [
+      id,
+      {
+        dev: devIds.has(id) && !prodIds.has(id),
+        optional: idSnapshots.every(snapshot => snapshot.optional),
+      },
+    ]),
+  );
+};
+
+export const pnpmLockToPackages = (data: PnpmLockYAMLSchema): Record<string, LockPackage> => {
+  const { lockfileVersion, packages = {}, snapshots = {} } = data;
+  const enginesById = new Map<string, LockPackageEngines>();
+  const packagesById = new Map<string, Pick<PnpmLockPackage, 'dev' | 'optional'>>(
+    getPnpmLockMajorVersion(lockfileVersion) >= 9 ? getPnpmDependencyTypes(data) : [],
+  );
+  const result: Record<string, LockPackage> = {};
+
+  for (const [key, pkg] of Object.entries(packages)) {
+    const id = getPnpmPackageId(key, lockfileVersion);
+    enginesById.set(id, pkg.engines || enginesById.get(id) || {});
+
+    if (getPnpmLockMajorVersion(lockfileVersion) < 9) {
+      packagesById.set(id, pkg);
+    }
+  }
+
+  for (const key of [...Object.keys(packages), ...Object.keys(snapshots)]) {
+    const id = getPnpmPackageId(key, lockfileVersion);
+    const { dev, optional } = packagesById.get(id) || {};
+    result[id] = { engines: enginesById.get(id) || {}, ...(dev ? { dev } : {}), ...(optional ? { optional } : {}) };
+  }
+
+  return result;
+};
@@ -0,0 +1,168 @@
+import type { Comparator, Range } from 'semver';
+import semver from 'semver';
+
+import type { RangeBound, RangeInterval } from './types.js';
+
+export const getReleaseVersion = ({ major, minor, patch }: semver.SemVer): string => `${major}.${minor}.${patch}`;
+
+export const isLowestPrerelease = (version: semver.SemVer): boolean => '0' === version.prerelease.join('.');
+
+const compareBounds = (a: RangeBound, b: RangeBound, inclusiveFirst: boolean): number =>
+  semver.compare(a.version, b.version) || (a.inclusive === b.inclusive ? 0 : a.inclusive === inclusiveFirst ? -1 : 1);
+
+const maxLowerBound = (a?: RangeBound, b?: RangeBound): RangeBound | undefined =>
+  !a || (b && compareBounds(b, a, true) > 0) ? b : a;
+
+const minUpperBound = (a?: RangeBound, b?: RangeBound): RangeBound | undefined =>
+  !a || (b && compareBounds(b, a, false) < 0) ? b : a;
+
+const isEqualBound = (a?: RangeBound, b?: RangeBound): boolean =>
+  a === b || (!!a && !!b && a.inclusive === b.inclusive && 0 === semver.compareBuild(a.version, b.version));
+
+const createRangeInterval = (lower?: RangeBound, upper?: RangeBound): RangeInterval | undefined => {
+  if (lower && upper) {
+    const comparison = semver.compare(lower.version, upper.version);
+
+    if (comparison > 0 || (0 === comparison && !(lower.inclusive && upper.inclusive))) {
+      return undefined;
+    }
+  }
+
+  return { ...(lower && { lower }), ...(upper && { upper }) };
+};
+
+/**
+ * Intersect the comparators of a set into an interval, `<X.Y.Z-0` being optionally normalized to `<X.Y.Z`.
+ */
+export const toRangeInterval = (
+  comps: ReadonlyArray<Comparator>,
+  normalizeLowestPrerelease: boolean = false,
+): RangeInterval | undefined => {
+  let lower: RangeBound | undefined = undefined;
+  let upper: RangeBound | undefined = undefined;
+
+  for (const { operator, semver: version, value } of comps) {
+    if ('' === value) {
+      continue;
+    }
+
+    if (['>=', '>', '=', ''].includes(operator)) {
+      lower = maxLowerBound(lower, { version, inclusive: '>' !== operator });
+    }
+
+    if (['<=', '<', '=', ''].includes(operator)) {
+      upper = minUpperBound(
+        upper,
+        normalizeLowestPrerelease && '<' === operator && isLowestPrerelease(version)
+          ? { version: new semver.SemVer(getReleaseVersion(version)), inclusive: false }
+          : { version, inclusive: '<' !== operator },
+      );
+    }
+  }
+
+  return createRangeInterval(lower, upper);
+};
+
+const sortRangeIntervals = (intervals: RangeInterval[]): RangeInterval[] =>
+  intervals.sort((a, b) => (!a.lower ? -1 : !b.lower ? 1 : compareBounds(a.lower, b.lower, true)));
+
+/**
+ * Convert every comparator set of a range into an interval, sorted by lower bound.
+ */
+export const toRangeIntervals = (range: string | Range, normalizeLowestPrerelease: boolean = false): RangeInterval[] =>
+  sortRangeIntervals(
+    new semver.Range(range).set.flatMap(comps => toRangeInterval(comps, normalizeLowestPrerelease) || []),
+  );
+
+/**
+ * Merge overlapping and adjacent intervals of a sorted list.
+ */
+export const mergeRangeIntervals = (intervals: RangeInterval[]): RangeInterval[] =>
+  intervals.reduce<RangeInterval[]>((merged, interval) => {
+    const previous = merged[merged.length - 1];
+    const isConnected =
+      previous &&
+      (!previous.upper ||
+        !interval.lower ||
+        semver.lt(interval.lower.version, previous.upper.version) ||
+        (semver.eq(interval.lower.version, previous.upper.version) &&
+          (interval.lower.inclusive || previous.upper.inclusive)));
+
+    if (!previous || !isConnected) {
+      merged.push(interval);
+    } else if (previous.upper && (!interval.upper || compareBounds(interval.upper, previous.upper, false) > 0)) {
+      merged[merged.length - 1] = createRangeInterval(previous.lower, interval.upper) as RangeInterval;
+    }
+
+    return merged;
+  }, []);
+
+/**
+ * Intersect two sorted lists of disjoint intervals, keeping comparator sets of both sides apart.
+ */
+export const intersectRangeIntervals = (a: RangeInterval[], b: RangeInterval[]): RangeInterval[] =>
+  a.flatMap(x =>
+    b.flatMap(y => createRangeInterval(maxLowerBound(x.lower, y.lower), minUpperBound(x.upper, y.upper)) || []),
+  );
+
+export const isSameRangeIntervals = (a: RangeInterval[], b: RangeInterval[]): boolean =>
+  a.length === b.length &&
+  a.every(
+    (interval, index) => isEqualBound(interval.lower, b[index]?.lower) && isEqualBound(interval.upper, b[index]?.upper),
+  );
+
+const getLowestBound = (intervals: RangeInterval[]): RangeBound | undefined =>
+  intervals.some(({ lower }) => !lower)
+    ? undefined
+    : intervals.reduce<RangeBound | undefined>(
+        (lowest, { lower }) => (lower && (!lowest || compareBounds(lower, lowest, true) < 0) ? lower : lowest),
+        undefined,
+      );
+
+const getHighestBound = (intervals: RangeInterval[]): RangeBound | undefined =>
+  intervals.some(({ upper }) => !upper)
+    ? undefined
+    : intervals.reduce<RangeBound | undefined>(
+        (highest, { upper }) => (upper && (!highest || compareBounds(upper, highest, false) > 0) ? upper : highest),
+        undefined,
+      );
+
+export const isSameLowerBound = (a: RangeInterval[], b: RangeInterval[]): boolean =>
+  isEqualBound(getLowestBound(a), getLowestBound(b));
+
+export const isSameUpperBound = (a: RangeInterval[], b: RangeInterval[]): boolean =>
+  isEqualBound(getHighestBound(a), getHighestBound(b));
+
+/**
+ * Whether `a` starts above every version of `b`, i.e. `b` is bounded above by a version lower than `a` allows.
+ */
+export const isAboveRangeIntervals = (a: RangeInterval[], b: RangeInterval[]): boolean => {
+  const lowest = getLowestBound(a);
+  const highest = getHighestBound(b);
+
+  return !!lowest && !!highest && semver.gte(lowest.version, highest.version);
+};
+
+export const formatRangeIntervals = (intervals: RangeInterval[]): string =>
+  intervals
+    .map(({ lower, upper }) => {
+      if (lower && upper && lower.inclusive && upper.inclusive && semver.eq(lower.version, upper.version)) {
+        return lower.version.version;
+      }
+
+      return (
+        [
+          lower && `${lower.inclusive ? '>=' : '>'}${lower.version.version}`,
+          upper && `${upper.inclusive ? '<=' : '<'}${upper.version.version}`,
+        ]
+          .filter(Boolean)
+          .join(' ') || '*'
+      );
+    })
+    .join('||');
+
+export const isEquivalentRange = (r1: string | Range, r2: string | Range): boolean =>
+  isSameRangeIntervals(
+    mergeRangeIntervals(toRangeIntervals(r1, true)),
+    mergeRangeIntervals(toRangeIntervals(r2, true)),
+  );
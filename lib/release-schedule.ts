@@ -0,0 +1,172 @@
+import fs from 'node:fs/promises';
+import https from 'node:https';
+import { homedir } from 'node:os';
+import { dirname } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import type { Range } from 'semver';
+import semver from 'semver';
+
+import type { NodeRelease, NodeReleaseSchedule, NodeReleaseStatus } from './types.js';
+import { defaultJSONFormat, getJson, joinPath, writeJson } from './utils.js';
+
+export const nodeReleaseScheduleFile = '../data/node-release-schedule.json' as const;
+export const nodeReleaseScheduleUrl = 'https://raw.githubusercontent.com/nodejs/Release/main/schedule.json' as const;
+
+export const getNodeReleaseSchedulePath = (): string =>
+  joinPath(dirname(fileURLToPath(import.meta.url)), nodeReleaseScheduleFile);
+
+export const getUserCacheDirectory = (
+  env: NodeJS.ProcessEnv = process.env,
+  platform: NodeJS.Platform = process.platform,
+): string => {
+  if ('win32' === platform) {
+    return joinPath(env['LOCALAPPDATA'] || joinPath(homedir(), 'AppData', 'Local'), 'nce', 'Cache');
+  }
+
+  if ('darwin' === platform) {
+    return joinPath(homedir(), 'Library', 'Caches', 'nce');
+  }
+
+  return joinPath(env['XDG_CACHE_HOME'] || joinPath(homedir(), '.cache'), 'nce');
+};
+
+export const getCachedNodeReleaseSchedulePath = (cacheDirectory: string = getUserCacheDirectory()): string =>
+  joinPath(cacheDirectory, 'node-release-schedule.json');
+
+/**
+ * Load the schedule refreshed by `nce refresh-schedule` from the user cache directory, falling back to the bundled one.
+ */
+export const loadNodeReleaseSchedule = async (
+  paths: string[] = [getCachedNodeReleaseSchedulePath(), getNodeReleaseSchedulePath()],
+): Promise<NodeReleaseSchedule> => {
+  for (const path of paths) {
+    const releaseSchedule = await getJson<unknown>(path).catch(() => undefined);
+
+    if (isNodeReleaseSchedule(releaseSchedule)) {
+      return releaseSchedule;
+    }
+  }
+
+  throw new Error(`Unable to load Node.js release schedule from ${paths.join(', ')}.`);
+};
+
+export const writeNodeReleaseSchedule = async (path: string, releaseSchedule: NodeReleaseSchedule): Promise<void> => {
+  await fs.mkdir(dirname(path), { recursive: true });
+  await writeJson(path, releaseSchedule, { ...defaultJSONFormat, trailingNewline: true });
+};
+
+export const isNodeReleaseSchedule = (data: unknown): data is NodeReleaseSchedule =>
+  typeof data === 'object' &&
+  null !== data &&
+  Object.keys(data).length > 0 &&
+  Object.values(data).every(
+    release => typeof release === 'object' && 'string' === typeof release?.start && 'string' === typeof release?.end,
+  );
+
+export const fetchNodeReleaseSchedule = (url: string = nodeReleaseScheduleUrl): Promise<NodeReleaseSchedule> =>
+  new Promise((resolve, reject) => {
+    https
+      .get(url, response => {
+        if (200 !== response.statusCode) {
+          response.resume();
+          reject(new Error(`Unable to fetch ${url}, status code ${response.statusCode}.`));
+          return;
+        }
+
+        let body = '';
+        response.setEncoding('utf8');
+        response.on('data', (chunk: string) => (body += chunk));
+        response.on('end', () => {
+          try {
+            const data: unknown = JSON.parse(body);
+
+            if (!isNodeReleaseSchedule(data)) {
+              throw new Error(`${url} is not a valid Node.js release schedule.`);
+            }
+
+            resolve(data);
+          } catch (error) {
+            reject(error);
+          }
+        });
+      })
+      .on('error', reject);
+  });
+
+export const parseDate = (value: string): Date => {
+  const date = new Date(value);
+
+  if (Number.isNaN(date.getTime())) {
+    throw new Error(`Invalid date ${value}, expected YYYY-MM-DD.`);
+  }
+
+  return date;
+};
+
+export const getNodeReleaseStatus = (release: NodeReleaseSchedule[string], date: Date): NodeReleaseStatus => {
+  const day = date.toISOString().slice(0, 10);
+
+  if (day < release.start) {
+    return 'unreleased';
+  }
+
+  if (day >= release.end) {
+    return 'end-of-life';
+  }
+
+  if (release.maintenance && day >= release.maintenance) {
+    return release.lts ? 'maintenance LTS' : 'maintenance';
+  }
+
+  return release.lts && day >= release.lts ? 'active LTS' : 'current';
+};
+
+/**
+ * List Node.js majors of the release schedule covered by a range, with their status at the given date.
+ */
+export const getNodeReleases = (range: Range, schedule: NodeReleaseSchedule, date: Date): NodeRelease[] =>
+  Object.entries(schedule)
+    .map(([key, release]) => ({ major: key.replace(/^v/, ''), release }))
+    .filter(({ major }) => semver.intersects(range, `${major}.x`))
+    .sort((a, b) => semver.compare(semver.coerce(a.major) || '0.0.0', semver.coerce(b.major) || '0.0.0'))
+    .map(({ major, release }) => ({ major, status: getNodeReleaseStatus(release, date) }));
+
+/**
+ * Group consecutive majors by status, e.g. `14-21, 23 end-of-life; 22 maintenance LTS`.
+ */
+export const formatNodeReleases = (releases: NodeRelease[]): string => {
+  const groups = new Map<NodeReleaseStatus, string[][]>();
+
+  releases.forEach(({ major, status }, index) => {
+    const runs = groups.get(status) || [];
+    const lastRun = runs[runs.length - 1];
+
+    if (lastRun && releases[index - 1]?.status === status) {
+      lastRun.push(major);
+    } else {
+      runs.push([major]);
+    }
+
+    groups.set(status, runs);
+  });
+
+  return [...groups]
+    .map(
+      ([status, runs]) =>
+        `${runs.map(run => (run.length > 1 ? `${run[0]}-${run[run.length - 1]}` : run[0])).join(', ')} ${status}`,
+    )
+    .join('; ');
+};
+
+/**
+ * Find the lowest supported major to keep, dropping the leading end-of-life majors.
+ */
+export const dropEndOfLifeReleases = (
+  releases: NodeRelease[],
+): { minimum: NodeRelease | undefined; dropped: NodeRelease[] } => {
+  const index = releases.findIndex(({ status }) => 'end-of-life' !== status);
+
+  return index > 0
+    ? { minimum: releases[index], dropped: releases.slice(0, index) }
+    : { minimum: undefined, dropped: [] };
+};
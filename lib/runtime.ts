@@ -0,0 +1,51 @@
+import { execFile } from 'node:child_process';
+import { promisify } from 'node:util';
+import semver from 'semver';
+
+import type { EngineConstraintKey } from './types.js';
+
+/**
+ * Parse `name/version` tokens of a package manager user agent, e.g. `npm/9.8.1 node/v18.17.0 linux x64 workspaces/false`.
+ */
+export const parseUserAgent = (userAgent: string): Map<string, string> => {
+  const versions = new Map<string, string>();
+
+  for (const token of userAgent.split(/\s+/)) {
+    const [name, version] = token.split('/');
+    const cleanVersion = version ? semver.clean(version) : null;
+
+    if (name && cleanVersion && !versions.has(name)) {
+      versions.set(name, cleanVersion);
+    }
+  }
+
+  return versions;
+};
+
+export const getRuntimeVersions = ({
+  nodeVersion = process.version,
+  userAgent = process.env['npm_config_user_agent'] || '',
+}: {
+  nodeVersion?: string;
+  userAgent?: string;
+} = {}): Map<EngineConstraintKey, string> => {
+  const versions = parseUserAgent(userAgent);
+  const cleanNodeVersion = semver.clean(nodeVersion);
+
+  if (cleanNodeVersion) {
+    versions.set('node', cleanNodeVersion);
+  }
+
+  return versions;
+};
+
+export const versionCommandEngines = ['npm', 'yarn', 'pnpm'] as const;
+
+/**
+ * Run `<command> --version`, e.g. to detect npm or yarn when `nce doctor` does not run from a package manager script.
+ */
+export const getCommandVersion = async (command: string): Promise<string | undefined> =>
+  promisify(execFile)(command, ['--version'], { timeout: 10_000, shell: 'win32' === process.platform }).then(
+    ({ stdout }) => semver.clean(stdout.trim()) || undefined,
+    () => undefined,
+  );
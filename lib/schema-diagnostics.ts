@@ -0,0 +1,80 @@
+import type { ErrorObject } from 'ajv';
+import { isNode, LineCounter, parseDocument } from 'yaml';
+
+import type { SchemaValidationDiagnostic } from './types.js';
+
+const packageContainerKeys = ['packages', 'dependencies', 'devDependencies', 'optionalDependencies'];
+
+export const parseJsonPointer = (pointer: string): string[] =>
+  pointer
+    .split('/')
+    .slice(1)
+    .map(segment => segment.replace(/~1/g, '/').replace(/~0/g, '~'));
+
+export const toJsonPointer = (segments: string[]): string =>
+  segments.map(segment => `/${segment.replace(/~/g, '~0').replace(/\//g, '~1')}`).join('');
+
+export const getPackageKey = (segments: string[]): string | undefined => {
+  const [container, key] = segments;
+  return container && key && packageContainerKeys.includes(container) ? key : undefined;
+};
+
+/**
+ * Locate the node at the given path of a JSON or YAML source, falling back to its closest existing ancestor.
+ */
+export const getSourcePosition = (
+  source: string,
+  segments: string[],
+): Pick<SchemaValidationDiagnostic, 'line' | 'column'> | undefined => {
+  const lineCounter = new LineCounter();
+  const document = parseDocument(source, { lineCounter });
+
+  for (let length = segments.length; length >= 0; length--) {
+    const node = length > 0 ? document.getIn(segments.slice(0, length), true) : document.contents;
+
+    if (isNode(node) && node.range) {
+      const { line, col } = lineCounter.linePos(node.range[0]);
+      return { line, column: col };
+    }
+  }
+
+  return undefined;
+};
+
+export const getSchemaValidationDiagnostics = ({
+  errors,
+  path,
+  source,
+  pointerPrefix = [],
+}: {
+  errors: ErrorObject[];
+  path: string;
+  source?: string | undefined;
+  pointerPrefix?: string[];
+}): SchemaValidationDiagnostic[] =>
+  errors.map(({ instancePath, message = 'is invalid' }) => {
+    const segments = [...pointerPrefix, ...parseJsonPointer(instancePath)];
+    const packageKey = getPackageKey(segments);
+    const position = source ? getSourcePosition(source, segments) : undefined;
+
+    return {
+      path,
+      instancePath: toJsonPointer(segments),
+      message,
+      ...(packageKey && { packageKey }),
+      ...position,
+    };
+  });
+
+/**
+ * Format diagnostics as `path:line:column message at /pointer of package key`, one per line.
+ */
+export const generateSchemaValidationMessage = (diagnostics: SchemaValidationDiagnostic[]): string =>
+  diagnostics
+    .map(
+      ({ path, instancePath, packageKey, line, column, message }) =>
+        `${path}${line ? `:${line}:${column}` : ''} ${message} at ${instancePath || '(root)'}${
+          packageKey ? ` of package ${packageKey}` : ''
+        }`,
+    )
+    .join('\n');
@@ -2,6 +2,7 @@ import type { AnySchema, ValidateFunction } from 'ajv';
 import chalk from 'chalk';
 import Table from 'cli-table';
 import type { Debugger } from 'debug';
+import { createTwoFilesPatch } from 'diff';
 import {
   Listr,
   ListrBaseClassOptions,
@@ -13,25 +14,112 @@ import {
   ListrTaskWrapper,
 } from 'listr2';
 import lodash from 'lodash';
+import minimatch from 'minimatch';
 import { dirname, sep } from 'node:path';
 import { fileURLToPath } from 'node:url';
 import semver from 'semver';
 import sortPackageJson from 'sort-package-json';
 
-import { ajv, packageJSONSchema, packageLockJSONSchema } from './json-schema-validator.js';
 import {
+  getCacheFile,
+  getCacheKey,
+  getNceVersion,
+  hashFile,
+  hasNodeModules,
+  pruneCachedResults,
+  readCachedResult,
+  writeCachedResult,
+} from './cache.js';
+import { debug as defaultDebug } from './debug.js';
+import { getDependencyChains, getPackageNameFromKey, getPackageNameFromPath } from './dependency-graph.js';
+import {
+  EnginesConflictError,
+  MissingFileError,
+  OutdatedEnginesError,
+  RangeConflictError,
+  SchemaValidationError,
+  UnsatisfiedRuntimeError,
+} from './errors.js';
+import { ajv, packageJSONSchema, packageLockJSONSchema, pnpmLockYAMLSchema } from './json-schema-validator.js';
+import { getInstalledManifests, getUnpluggedManifests } from './manifests.js';
+import { PackageLockV1JSONSchema, packageLockV1ToPackages } from './package-lock-v1.js';
+import { pnpmLockToPackages, PnpmLockYAMLSchema } from './pnpm-lock.js';
+import {
+  formatRangeIntervals,
+  getReleaseVersion,
+  intersectRangeIntervals,
+  isAboveRangeIntervals,
+  isEquivalentRange,
+  isLowestPrerelease,
+  isSameLowerBound,
+  isSameRangeIntervals,
+  isSameUpperBound,
+  toRangeIntervals,
+} from './range-intervals.js';
+import {
+  dropEndOfLifeReleases,
+  fetchNodeReleaseSchedule,
+  formatNodeReleases,
+  getCachedNodeReleaseSchedulePath,
+  getNodeReleases,
+  nodeReleaseScheduleUrl,
+  writeNodeReleaseSchedule,
+} from './release-schedule.js';
+import { getCommandVersion, getRuntimeVersions, versionCommandEngines } from './runtime.js';
+import { generateSchemaValidationMessage, getSchemaValidationDiagnostics } from './schema-diagnostics.js';
+import {
+  CacheableComputeEnginesResult,
   CheckCommandContext,
+  ComputeEnginesOptions,
+  ComputeEnginesResult,
   EngineConstraintChange,
+  EngineConstraintChangeType,
+  EngineConstraintConflict,
+  EngineConstraintExplanation,
   EngineConstraintKey,
   EngineConstraintKeys,
-  FileObject,
+  EngineConstraintSource,
+  IgnoredPackage,
+  LoadedFileObject,
+  LockFilename,
+  LockFilenames,
   LockPackage,
   LockPackageEngines,
   LockPackageEnginesObject,
+  NodeRelease,
+  NodeReleaseSchedule,
+  OmitType,
+  OnlyType,
+  OverriddenPackage,
+  packageJSONFilename,
   PackageJSONSchema,
+  packageLockJSONFilename,
   PackageLockJSONSchema,
+  pnpmLockFilename,
+  RangeInterval,
+  RangeStyle,
+  UnsatisfiedPackage,
+  UpdatePolicy,
+  VersionPinFilenames,
+  VersionPinStatus,
+  yarnLockFilename,
 } from './types.js';
-import { getJson, getRelativePath, joinPath, writeJson } from './utils.js';
+import {
+  detectJSONFormat,
+  fileExists,
+  getJson,
+  getRelativePath,
+  getText,
+  getYaml,
+  joinPath,
+  replaceJsonProperty,
+  stringifyJson,
+  writeText,
+} from './utils.js';
+import { getVersionPinChecks, readVersionPins, replaceVersionPin } from './version-pins.js';
+import { getWorkspacePackages, getWorkspacePaths, getWorkspacesGlobs } from './workspaces.js';
+import { isYarnBerryLock, parseYarnBerryLock } from './yarn-berry-lock.js';
+import { parseYarnLock, yarnLockToPackages } from './yarn-lock.js';
 
 export type Task<Ctx, Renderer extends ListrRendererFactory = any> = (args: {
   ctx: Ctx;
@@ -46,250 +134,717 @@ export const rangeOptions: semver.Options = { loose: false };
 export const sortRangeSet = (set: ReadonlyArray<ReadonlyArray<semver.Comparator>>): semver.Comparator[][] =>
   [...set.map(comp => [...comp])].sort((a, b) => semver.compare(a[0].semver, b[0].semver));
 
-export const setToRange = (set: semver.Comparator[][]): semver.Range =>
-  new semver.Range(set.map(tuple => tuple.map(comp => comp.value).join(' ')).join('||'), rangeOptions);
-
-export const applyMinVersionToRangeSet = (
-  set: ReadonlyArray<ReadonlyArray<semver.Comparator>>,
-  minVersion: semver.SemVer,
-): semver.Comparator[][] =>
-  [...set.map(comp => [...comp])]
-    .filter(c => c[0].semver.major >= minVersion.major)
-    .map(c => {
-      if (c[0].semver.major === minVersion.major && semver.gte(minVersion, c[0].semver, rangeOptions)) {
-        c[0] = new semver.Comparator(`${c[0].operator}${minVersion.raw}`);
-      }
+const maxHumanizedRanges = 8;
 
-      return c;
-    });
+const getComparatorsValue = (comps: semver.Comparator[]): string => comps.map(comp => comp.value).join(' ');
 
-export const restrictiveRange = (
-  r1: semver.Range,
-  r2: semver.Range,
-  ignoredRanges: string[],
-  debug: Debugger,
-): semver.Range => {
-  debug(`${chalk.white('Compare:')} ${chalk.blue(r1.raw)} ${chalk.white('and')} ${chalk.blue(r2.raw)}`);
-
-  if (semver.subset(r1, r2)) {
-    debug(`${chalk.white('Range')} ${chalk.green(r1.raw)} ${chalk.white('is a subset of')} ${chalk.blue(r2.raw)}`);
-    ignoredRanges.push(r2.raw);
-    return r1;
-  } else if (semver.subset(r2, r1)) {
-    debug(`${chalk.white('Range')} ${chalk.green(r2.raw)} ${chalk.white('is a subset of')} ${chalk.blue(r1.raw)}`);
-    ignoredRanges.push(r1.raw);
-    return r2;
-  }
-
-  const minVersion1 = semver.minVersion(r1, rangeOptions) || new semver.SemVer('*');
-  const minVersion2 = semver.minVersion(r2, rangeOptions) || new semver.SemVer('*');
-  const sortedR1: semver.Comparator[][] = sortRangeSet(r1.set);
-  const sortedR2: semver.Comparator[][] = sortRangeSet(r2.set);
-
-  if (!semver.eq(minVersion1, minVersion2, rangeOptions)) {
-    const minSemver = semver.compare(minVersion1, minVersion2) === -1 ? minVersion2 : minVersion1;
-    debug(
-      `${chalk.white('Applying minimal version')} ${chalk.yellow(minSemver.version)} ${chalk.white('to both ranges.')}`,
-    );
+const getBounds = (comps: semver.Comparator[]): { lower?: semver.Comparator; upper?: semver.Comparator } => {
+  const lower = comps.find(comp => '>=' === comp.operator);
+  const upper = comps.find(comp => '<' === comp.operator);
+
+  return comps.length === Number(!!lower) + Number(!!upper) ? { ...(lower && { lower }), ...(upper && { upper }) } : {};
+};
 
-    const newR1 = setToRange(applyMinVersionToRangeSet(sortedR1, minSemver));
-    const newR2 = setToRange(applyMinVersionToRangeSet(sortedR2, minSemver));
+/**
+ * Merge adjacent comparator sets, e.g. `>=14.17.0 <15.0.0-0 || >=15.0.0` into `>=14.17.0`.
+ */
+export const mergeRangeSet = (set: semver.Comparator[][]): semver.Comparator[][] =>
+  set.reduce<semver.Comparator[][]>((merged, comps) => {
+    const { lower: previousLower, upper: previousUpper } = getBounds(merged[merged.length - 1] || []);
+    const { lower, upper } = getBounds(comps);
 
-    if (newR1.intersects(newR2, rangeOptions)) {
-      return restrictiveRange(newR1, newR2, ignoredRanges, debug);
+    if (
+      previousLower &&
+      previousUpper &&
+      lower &&
+      0 === lower.semver.prerelease.length &&
+      getReleaseVersion(previousUpper.semver) === lower.semver.version
+    ) {
+      merged[merged.length - 1] = upper ? [previousLower, upper] : [previousLower];
     } else {
-      throw new Error('Not yet implemented :/');
+      merged.push(comps);
+    }
+
+    return merged;
+  }, []);
+
+/**
+ * Split `>=lower <upper` into consecutive caret or tilde ranges, e.g. `>=14.17.0 <17.0.0-0` into `^14.17.0 || ^15.0.0 || ^16.0.0`.
+ */
+const toOperatorRanges = (operator: '^' | '~', lower: semver.SemVer, upper: semver.SemVer): string[] | undefined => {
+  const res: string[] = [];
+  let version = lower.version;
+
+  while (res.length < maxHumanizedRanges) {
+    const bound = getBounds([...(new semver.Range(`${operator}${version}`, rangeOptions).set[0] || [])]).upper;
+
+    if (!bound) {
+      return undefined;
     }
+
+    res.push(`${operator}${version}`);
+    version = getReleaseVersion(bound.semver);
+    const comparison = semver.compare(version, getReleaseVersion(upper));
+
+    if (comparison >= 0) {
+      return 0 === comparison ? res : undefined;
+    }
+  }
+
+  return undefined;
+};
+
+const humanizeComparators = (comps: semver.Comparator[], style: RangeStyle): string => {
+  const { lower, upper } = getBounds(comps);
+
+  if (!lower || !upper) {
+    return getComparatorsValue(comps);
   }
 
-  const minComp1: semver.Comparator[] | undefined = sortedR1.shift();
-  const minComp2: semver.Comparator[] | undefined = sortedR2.shift();
-  const minComp: semver.Comparator[] | undefined = minComp1 || minComp2;
+  const res = 'gte' === style ? undefined : toOperatorRanges('tilde' === style ? '~' : '^', lower.semver, upper.semver);
 
-  if (!minComp) {
-    throw new Error('Not yet implemented :/');
+  if (res && ('preserve' !== style || 1 === res.length)) {
+    return res.join(' || ');
   }
 
-  const set: semver.Comparator[][] = [minComp];
-  const newR1 = setToRange(sortedR1);
-  const newR2 = setToRange(sortedR2);
-  const newRange = restrictiveRange(newR1, newR2, ignoredRanges, debug);
-  set.push(...sortRangeSet(newRange.set));
-  return setToRange(set);
+  return 'preserve' === style || !isLowestPrerelease(upper.semver)
+    ? getComparatorsValue(comps)
+    : `${lower.value} <${getReleaseVersion(upper.semver)}`;
 };
 
-export const humanizeRange = (range?: semver.Range): string => {
+/**
+ * Humanize a range in the given style, falling back to its comparators if the result is not semantically equal.
+ */
+export const humanizeRange = (range?: semver.Range, style: RangeStyle = 'preserve'): string => {
   if (!range || '*' === range.raw) {
     return '*';
   }
 
-  const res: string[] = [];
-
   const set = sortRangeSet(range.set);
+  const humanized = ('preserve' === style ? set : mergeRangeSet(set))
+    .map(comps => humanizeComparators(comps, style))
+    .join(' || ');
 
-  set.forEach(comps => {
-    const [from, to] = comps;
-    if (
-      comps.length === 2 &&
-      from.operator === '>=' &&
-      to.operator === '<' &&
-      from.semver.major + 1 === to.semver.major
-    ) {
-      res.push(`^${from.semver.version}`);
-    } else if (comps.length === 1 && from.operator === '>=') {
-      res.push(from.value);
-    } else {
-      res.push(`${from.value} ${to?.value || ''}`.trim());
-    }
-  });
-
-  return res.join(' || ');
+  return isEquivalentRange(humanized, range) ? humanized : set.map(getComparatorsValue).join(' || ');
 };
 
 const loadFile = async <T>({
-  fileObject,
+  filename,
   path,
   workingDir,
   debug,
   validateFn,
+  readFn = getJson,
 }: {
-  fileObject: FileObject<T>;
+  filename: string;
   workingDir: string;
   path: string;
   debug: Debugger;
   validateFn: ValidateFunction<T>;
-}): Promise<FileObject<T>> => {
-  const pathToFile = joinPath(path, fileObject.filename);
+  readFn?: <R>(path: string) => Promise<R>;
+}): Promise<LoadedFileObject<T>> => {
+  const pathToFile = joinPath(path, filename);
   const relativePath = getRelativePath({ path: pathToFile, workingDir });
-  debug(`${chalk.white(`Relative path to ${fileObject.filename}:`)} ${chalk.blue(relativePath)}`);
+  debug(`${chalk.white(`Relative path to ${filename}:`)} ${chalk.blue(relativePath)}`);
 
-  const jsonObject: T | undefined = await getJson<T>(relativePath).catch(() => undefined);
+  const jsonObject: T | undefined = await readFn<T>(relativePath).catch(() => undefined);
 
   if (!jsonObject) {
-    throw new Error(`${relativePath} is not defined.`);
+    throw new MissingFileError(relativePath);
   }
 
   debug(`${chalk.white(`Validate JSON schema of`)} ${chalk.blue(relativePath)}`);
   const data = validateFn(jsonObject);
 
   if (!data) {
-    throw new Error(validateFn.errors?.map(e => e.message).join('\n'));
+    const diagnostics = getSchemaValidationDiagnostics({
+      errors: validateFn.errors || [],
+      path: relativePath,
+      source: await getText(relativePath).catch(() => undefined),
+    });
+    throw new SchemaValidationError(generateSchemaValidationMessage(diagnostics), relativePath, diagnostics);
   }
 
-  fileObject.relativePath = relativePath;
-  fileObject.data = jsonObject;
-
-  return fileObject;
+  return { filename, relativePath, data: jsonObject };
 };
 
-export const loadPackageFile: CheckCommandTask = async ({ ctx, debug }): Promise<void> => {
-  const { path, workingDir, packageObject } = ctx;
+type ReadFileOptions = { path: string; workingDir: string; filename: string; debug: Debugger };
 
+export const readPackageFile = async ({
+  path,
+  workingDir,
+  filename,
+  debug,
+}: ReadFileOptions): Promise<LoadedFileObject<PackageJSONSchema>> => {
   const pathToFile = joinPath(dirname(fileURLToPath(import.meta.url)), packageJSONSchema);
   const relativePath = getRelativePath({ path: pathToFile, workingDir });
   const packageJSONSchemaObj = await getJson<AnySchema>(relativePath);
   const validateFn = ajv.compile<PackageJSONSchema>(packageJSONSchemaObj);
 
-  ctx.packageObject = await loadFile<PackageJSONSchema>({
-    fileObject: packageObject,
+  return loadFile<PackageJSONSchema>({ filename, path, debug, workingDir, validateFn });
+};
+
+export const detectLockFilename = async ({
+  path,
+  workingDir,
+}: {
+  path: string;
+  workingDir: string;
+}): Promise<LockFilename> => {
+  for (const filename of LockFilenames) {
+    if (await fileExists(getRelativePath({ path: joinPath(path, filename), workingDir }))) {
+      return filename;
+    }
+  }
+
+  return packageLockJSONFilename;
+};
+
+const readYarnLockFile = async ({
+  path,
+  workingDir,
+  filename,
+  debug,
+}: ReadFileOptions): Promise<LoadedFileObject<PackageLockJSONSchema>> => {
+  const relativePath = getRelativePath({ path: joinPath(path, filename), workingDir });
+  debug(`${chalk.white(`Relative path to ${filename}:`)} ${chalk.blue(relativePath)}`);
+
+  const content: string | undefined = await getText(relativePath).catch(() => undefined);
+
+  if (!content) {
+    throw new MissingFileError(relativePath);
+  }
+
+  const isBerry = isYarnBerryLock(content);
+  const entries = isBerry ? parseYarnBerryLock(content) : parseYarnLock(content);
+  debug(`${chalk.white('Read installed manifests to retrieve engines of')} ${chalk.blue(entries.length)} packages`);
+  const projectPath = getRelativePath({ path, workingDir });
+  const manifests = await getInstalledManifests({ path: projectPath, debug });
+
+  if (isBerry) {
+    debug(`${chalk.white('Yarn Berry lock file detected, read unplugged manifests')}`);
+    (await getUnpluggedManifests({ path: projectPath, debug })).forEach((manifest, manifestPath) =>
+      manifests.set(manifestPath, manifest),
+    );
+  }
+
+  return { filename, relativePath, data: { packages: yarnLockToPackages({ entries, manifests, debug }) } };
+};
+
+const readPnpmLockFile = async ({
+  path,
+  workingDir,
+  filename,
+  debug,
+}: ReadFileOptions): Promise<LoadedFileObject<PackageLockJSONSchema>> => {
+  const pathToFile = joinPath(dirname(fileURLToPath(import.meta.url)), pnpmLockYAMLSchema);
+  const relativePath = getRelativePath({ path: pathToFile, workingDir });
+  const pnpmLockYAMLSchemaObj = await getJson<AnySchema>(relativePath);
+  const validateFn = ajv.compile<PnpmLockYAMLSchema>(pnpmLockYAMLSchemaObj);
+
+  const { relativePath: pnpmLockRelativePath, data } = await loadFile<PnpmLockYAMLSchema>({
+    filename,
     path,
     debug,
     workingDir,
     validateFn,
+    readFn: getYaml,
   });
+
+  return { filename, relativePath: pnpmLockRelativePath, data: { packages: pnpmLockToPackages(data) } };
 };
 
-export const loadPackageLockFile: CheckCommandTask = async ({ ctx, debug }): Promise<void> => {
-  const { path, workingDir, packageLockObject } = ctx;
+/**
+ * Read a `package-lock.json`, `yarn.lock` or `pnpm-lock.yaml` file into the `packages` shape of npm lock files.
+ */
+export const readPackageLockFile = async (
+  options: ReadFileOptions,
+): Promise<LoadedFileObject<PackageLockJSONSchema>> => {
+  const { path, workingDir, filename, debug } = options;
+
+  if (yarnLockFilename === filename) {
+    return readYarnLockFile(options);
+  }
+
+  if (pnpmLockFilename === filename) {
+    return readPnpmLockFile(options);
+  }
 
   const pathToFile = joinPath(dirname(fileURLToPath(import.meta.url)), packageLockJSONSchema);
   const relativePath = getRelativePath({ path: pathToFile, workingDir });
   const packageLockJSONSchemaObj = await getJson<AnySchema>(relativePath);
-  const validateFn = ajv.compile<PackageLockJSONSchema>(packageLockJSONSchemaObj);
+  const validateFn = ajv.compile<PackageLockJSONSchema | PackageLockV1JSONSchema>(packageLockJSONSchemaObj);
 
-  ctx.packageLockObject = await loadFile<PackageLockJSONSchema>({
-    fileObject: packageLockObject,
+  const { relativePath: packageLockRelativePath, data } = await loadFile<
+    PackageLockJSONSchema | PackageLockV1JSONSchema
+  >({
+    filename,
     path,
     debug,
     workingDir,
     validateFn,
   });
+
+  if ('packages' in data) {
+    return { filename, relativePath: packageLockRelativePath, data };
+  }
+
+  debug(`${chalk.white('Legacy lock file detected, read installed manifests to retrieve engines')}`);
+  const manifests = await getInstalledManifests({ path: getRelativePath({ path, workingDir }), debug });
+
+  return {
+    filename,
+    relativePath: packageLockRelativePath,
+    data: { packages: packageLockV1ToPackages({ data, manifests, debug }) },
+  };
+};
+
+export const loadPackageFile: CheckCommandTask = async ({ ctx, debug }): Promise<void> => {
+  const { path, workingDir, packageObject } = ctx;
+  ctx.packageObject = await readPackageFile({ path, workingDir, filename: packageObject.filename, debug });
+};
+
+/**
+ * With cache enabled, the lock file is read on a cache miss only, unless later tasks need its packages.
+ */
+const isPackageLockFileDeferred = ({ cache, explain, workspaces, doctor }: CheckCommandContext): boolean =>
+  cache && !explain && !workspaces && !doctor;
+
+export const loadPackageLockFile: CheckCommandTask = async ({ ctx, debug }): Promise<void> => {
+  const { path, workingDir, packageLockObject } = ctx;
+
+  if (isPackageLockFileDeferred(ctx)) {
+    debug(`${chalk.white('Defer reading')} ${chalk.blue(packageLockObject.filename)} ${chalk.white('to cache miss')}`);
+    ctx.packageLockObject = {
+      ...packageLockObject,
+      relativePath: getRelativePath({ path: joinPath(path, packageLockObject.filename), workingDir }),
+    };
+    return;
+  }
+
+  ctx.packageLockObject = await readPackageLockFile({ path, workingDir, filename: packageLockObject.filename, debug });
 };
 
+const getEngineKeyFromConstraint = (constraint: string): EngineConstraintKey | undefined =>
+  constraint.trim().match(/^[^\s\d<>=~^*|]+/)?.[0];
+
 const getConstraintFromEngines = (
-  engines: LockPackageEngines,
+  engines: LockPackageEngines | undefined,
   constraintKey: EngineConstraintKey,
 ): string | undefined => {
-  if (typeof engines === 'object' && constraintKey in engines) {
-    return (engines as LockPackageEnginesObject)[constraintKey];
-  } else if (lodash.isArray(engines) && engines.some(constraint => constraint.includes(constraintKey))) {
-    return engines.find(constraint => constraint.includes(constraintKey))?.replace(constraintKey, '');
+  if (lodash.isArray(engines)) {
+    const constraint = engines.find(constraint => getEngineKeyFromConstraint(constraint) === constraintKey);
+    return constraint?.trim().slice(constraintKey.length);
+  } else if (typeof engines === 'object' && constraintKey in engines) {
+    return engines[constraintKey];
   }
 
   return undefined;
 };
 
-const computeEnginesConstraint = ({
+export const getEngineKeys = (engines: LockPackageEngines | undefined): EngineConstraintKey[] => {
+  if (lodash.isArray(engines)) {
+    return engines.map(getEngineKeyFromConstraint).filter((key): key is EngineConstraintKey => !!key);
+  }
+
+  return typeof engines === 'object' && null !== engines ? Object.keys(engines) : [];
+};
+
+export const discoverEngineKeys = (
+  packageJson: PackageJSONSchema,
+  lockfile: PackageLockJSONSchema,
+): EngineConstraintKey[] => {
+  const discoveredKeys = new Set<EngineConstraintKey>(getEngineKeys(packageJson.engines));
+
+  for (const pkg of Object.values(lockfile.packages)) {
+    getEngineKeys(pkg.engines).forEach(key => discoveredKeys.add(key));
+  }
+
+  return lodash.uniq([...EngineConstraintKeys, ...[...discoveredKeys].sort()]);
+};
+
+type ParsedConstraint = { range: semver.Range; intervals: RangeInterval[] };
+
+type EngineConstraintState = {
+  range: semver.Range;
+  intervals: RangeInterval[];
+  lowerSource: EngineConstraintSource | undefined;
+  upperSource: EngineConstraintSource | undefined;
+  ignoredRanges: Set<string>;
+  conflicts: EngineConstraintConflict[];
+  debug: Debugger;
+};
+
+/**
+ * Compute the most restrictive range of every engine key in a single pass over packages, parsing each distinct
+ * constraint once and intersecting their comparator sets as intervals.
+ */
+const computeEnginesConstraintRanges = ({
   packages,
-  constraintKey,
+  constraintKeys,
   debug,
+  conflicts = [],
+  explanations,
 }: {
   packages: [string, LockPackage][];
-  constraintKey: EngineConstraintKey;
+  constraintKeys: EngineConstraintKey[];
   debug: Debugger;
-}): semver.Range | never => {
-  let mrr: semver.Range = new semver.Range('*');
-  const ignoredRanges: string[] = [];
-  const debugConstraint = debug.extend(constraintKey);
+  conflicts?: EngineConstraintConflict[];
+  explanations?: Map<EngineConstraintKey, EngineConstraintExplanation>;
+}): Map<EngineConstraintKey, semver.Range> => {
+  const parsedConstraints = new Map<string, ParsedConstraint | undefined>();
+  const states = new Map<EngineConstraintKey, EngineConstraintState>(
+    constraintKeys.map(constraintKey => [
+      constraintKey,
+      {
+        range: new semver.Range('*'),
+        intervals: [{}],
+        lowerSource: undefined,
+        upperSource: undefined,
+        ignoredRanges: new Set<string>(),
+        conflicts: [],
+        debug: debug.extend(constraintKey),
+      },
+    ]),
+  );
+  const parseConstraint = (constraint: string): ParsedConstraint | undefined => {
+    if (!parsedConstraints.has(constraint)) {
+      const validRange = semver.validRange(constraint, rangeOptions);
+      const range = validRange ? new semver.Range(validRange, rangeOptions) : undefined;
+      parsedConstraints.set(constraint, range && { range, intervals: toRangeIntervals(range) });
+    }
+
+    return parsedConstraints.get(constraint);
+  };
 
   for (const [pkgName, pkg] of packages) {
-    const { engines } = pkg;
-    let constraint: string | undefined = getConstraintFromEngines(engines, constraintKey);
+    for (const [constraintKey, state] of states) {
+      const { debug: debugConstraint } = state;
+      const explanation = explanations?.get(constraintKey);
+      const constraint: string | undefined = getConstraintFromEngines(pkg.engines, constraintKey);
+
+      if (!constraint) {
+        debugConstraint(
+          `${chalk.white('Package')} ${chalk.gray(pkgName)} ${chalk.white('has no constraints for current engine')}`,
+        );
+        continue;
+      }
 
-    if (!constraint) {
-      debugConstraint(
-        `${chalk.white('Package')} ${chalk.gray(pkgName)} ${chalk.white('has no constraints for current engine')}`,
-      );
+      const parsed = parseConstraint(constraint);
+
+      if (!parsed) {
+        debugConstraint(`${chalk.red(constraint)} ${chalk.white('is not a valid semver range')}`);
+        explanation?.invalid.push({ path: pkgName, range: constraint });
+        continue;
+      }
+
+      if (state.ignoredRanges.has(parsed.range.raw)) {
+        debugConstraint(`${chalk.white('Ignored range:')} ${chalk.gray(parsed.range.raw)}`);
+        explanation?.ignored.push({ path: pkgName, range: constraint });
+        continue;
+      }
+
+      const source: EngineConstraintSource = { path: pkgName, range: constraint };
+      const intervals = intersectRangeIntervals(state.intervals, parsed.intervals);
+
+      if (0 === intervals.length) {
+        const boundSource = isAboveRangeIntervals(parsed.intervals, state.intervals)
+          ? state.upperSource || state.lowerSource
+          : state.lowerSource || state.upperSource;
+        debugConstraint(
+          `${chalk.white('Package')} ${chalk.gray(pkgName)} ${chalk.white('range')} ${chalk.red(
+            constraint,
+          )} ${chalk.white('conflicts with')} ${chalk.blue(state.range.raw)}`,
+        );
+        state.conflicts.push({
+          engine: constraintKey,
+          packages: [boundSource || { path: '', range: state.range.raw }, source],
+        });
+        continue;
+      }
+
+      if (isSameRangeIntervals(intervals, state.intervals)) {
+        debugConstraint(
+          `${chalk.white('Range')} ${chalk.green(state.range.raw)} ${chalk.white('is a subset of')} ${chalk.blue(
+            parsed.range.raw,
+          )}`,
+        );
+        state.ignoredRanges.add(parsed.range.raw);
+        explanation?.ignored.push(source);
+        continue;
+      }
+
+      if (!isSameLowerBound(intervals, state.intervals)) {
+        state.lowerSource = source;
+      }
+
+      if (!isSameUpperBound(intervals, state.intervals)) {
+        state.upperSource = source;
+      }
+
+      state.ignoredRanges.add(state.range.raw);
+      state.range = isSameRangeIntervals(intervals, parsed.intervals)
+        ? parsed.range
+        : new semver.Range(formatRangeIntervals(intervals), rangeOptions);
+      state.intervals = intervals;
+      explanation?.culprits.push({ ...source, result: state.range.raw });
+      debugConstraint(`${chalk.white('New most restrictive range:')} ${chalk.green(state.range.raw)}`);
+    }
+  }
+
+  for (const { range, debug: debugConstraint, conflicts: constraintConflicts } of states.values()) {
+    debugConstraint(`${chalk.white(`Final computed engine range constraint:`)} ${chalk.blue(range.raw)}`);
+    conflicts.push(...constraintConflicts);
+  }
+
+  return new Map([...states].map(([constraintKey, { range }]) => [constraintKey, range]));
+};
+
+export const simplifyRanges = (
+  ranges: Map<EngineConstraintKey, EngineConstraintChange>,
+  rangeStyle: RangeStyle = 'preserve',
+): Map<EngineConstraintKey, string> => {
+  const rangesSimplified = new Map<EngineConstraintKey, string>();
+
+  for (const [engine, range] of ranges.entries()) {
+    const rangeToHumanized = humanizeRange(range.to, rangeStyle);
+
+    if (rangeToHumanized !== humanizeRange(range.from, rangeStyle)) {
+      rangesSimplified.set(engine, rangeToHumanized);
+    }
+  }
+
+  return rangesSimplified;
+};
+
+export const findMatchingPattern = (key: string, patterns: string[]): string | undefined => {
+  if (0 === patterns.length) {
+    return undefined;
+  }
+
+  const name = getPackageNameFromKey(key);
+  return patterns.find(pattern => minimatch(name, pattern));
+};
+
+export const isOmittedPackage = (pkg: LockPackage, omit: OmitType[]): boolean => {
+  const omitDev = omit.includes('dev');
+  const omitOptional = omit.includes('optional');
+
+  return (
+    (omitDev && !!pkg.dev) ||
+    (omitOptional && !!pkg.optional) ||
+    (omitDev && omitOptional && !!pkg.devOptional) ||
+    (omit.includes('peer') && !!pkg.peer)
+  );
+};
+
+export const isDevPackage = (pkg: LockPackage): boolean => !!pkg.dev || !!pkg.devOptional;
+
+export const selectPackages = ({
+  lockfile,
+  ignore = [],
+  overrides = {},
+  omit = [],
+  only,
+  debug = defaultDebug,
+}: Omit<ComputeEnginesOptions, 'packageJson' | 'engines'> & { debug?: Debugger }): {
+  packages: [string, LockPackage][];
+  ignoredPackages: IgnoredPackage[];
+  overriddenPackages: OverriddenPackage[];
+} => {
+  const ignoredPackages: IgnoredPackage[] = [];
+  const overriddenPackages: OverriddenPackage[] = [];
+  const packages: [string, LockPackage][] = [];
+  const overridePatterns = Object.keys(overrides);
+
+  for (const [key, pkg] of Object.entries(lockfile.packages)) {
+    if ('dev' === only && !isDevPackage(pkg)) {
       continue;
     }
 
-    const rawValidRange = semver.validRange(constraint);
-    if (!rawValidRange) {
-      debugConstraint(`${chalk.red(constraint)} ${chalk.white('is not a valid semver range')}`);
+    if (isOmittedPackage(pkg, omit)) {
+      debug(`${chalk.white('Omitted package:')} ${chalk.gray(key)}`);
       continue;
     }
 
-    if (ignoredRanges.indexOf(rawValidRange) !== -1) {
-      debugConstraint(`${chalk.white('Ignored range:')} ${chalk.gray(rawValidRange)}`);
+    const ignorePattern = key ? findMatchingPattern(key, ignore) : undefined;
+
+    if (ignorePattern) {
+      debug(`${chalk.white('Ignored package:')} ${chalk.gray(key)}`);
+      ignoredPackages.push({ path: key, pattern: ignorePattern });
       continue;
     }
 
-    const range = new semver.Range(rawValidRange, rangeOptions);
+    const overridePattern = key ? findMatchingPattern(key, overridePatterns) : undefined;
 
-    if (!mrr) {
-      mrr = range;
-      debugConstraint(`${chalk.white('New most restrictive range:')} ${chalk.green(mrr.raw)}`);
+    if (overridePattern) {
+      const override = overrides[overridePattern] as LockPackageEnginesObject;
+      const enginesOverridden = { ...(lodash.isArray(pkg.engines) ? {} : pkg.engines), ...override };
+      debug(`${chalk.white('Overridden package engines:')} ${chalk.gray(key)}`);
+      overriddenPackages.push({ path: key, pattern: overridePattern, from: pkg.engines ?? {}, to: override });
+      packages.push([key, { ...pkg, engines: enginesOverridden }]);
       continue;
     }
 
-    const newRestrictiveRange = restrictiveRange(mrr, range, ignoredRanges, debugConstraint);
-    if (mrr.raw !== newRestrictiveRange.raw) {
-      mrr = newRestrictiveRange;
-      debugConstraint(`${chalk.white('New most restrictive range:')} ${chalk.green(mrr.raw)}`);
+    packages.push([key, pkg]);
+  }
+
+  return { packages, ignoredPackages, overriddenPackages };
+};
+
+/**
+ * npm lock files list the project itself as the `''` package, add it to other lock files from package.json.
+ */
+const withRootPackage = (lockfile: PackageLockJSONSchema, packageJson: PackageJSONSchema): PackageLockJSONSchema =>
+  '' in lockfile.packages || !packageJson.engines
+    ? lockfile
+    : { ...lockfile, packages: { '': { engines: packageJson.engines }, ...lockfile.packages } };
+
+export const computeEngines = ({
+  packageJson,
+  lockfile,
+  engines,
+  ignore,
+  overrides,
+  omit,
+  only,
+  rangeStyle,
+  debug = defaultDebug,
+}: ComputeEnginesOptions & { debug?: Debugger }): ComputeEnginesResult => {
+  const { packages, ignoredPackages, overriddenPackages } = selectPackages({
+    lockfile: withRootPackage(lockfile, packageJson),
+    ignore,
+    overrides,
+    omit,
+    only,
+    debug,
+  });
+  const ranges = new Map<EngineConstraintKey, EngineConstraintChange>();
+  const availableKeys = discoverEngineKeys(packageJson, lockfile);
+  let constraintKeys: EngineConstraintKey[] = availableKeys;
+
+  if (engines && engines.length > 0) {
+    const unknownKeys = engines.filter(key => !availableKeys.includes(key));
+
+    if (unknownKeys.length > 0) {
+      throw new Error(
+        `Unknown engine key(s): ${unknownKeys.join(', ')}. Available engine keys: ${availableKeys.join(', ')}.`,
+      );
     }
+
+    constraintKeys = lodash.uniq(engines);
+  }
+
+  const conflicts: EngineConstraintConflict[] = [];
+  const explanations = new Map<EngineConstraintKey, EngineConstraintExplanation>(
+    constraintKeys.map(constraintKey => [constraintKey, { culprits: [], ignored: [], invalid: [] }]),
+  );
+  const fromRanges = computeEnginesConstraintRanges({
+    packages: [['', { engines: packageJson.engines || {} }]],
+    constraintKeys,
+    debug,
+  });
+  const toRanges = computeEnginesConstraintRanges({ packages, constraintKeys, debug, conflicts, explanations });
+
+  for (const constraintKey of constraintKeys) {
+    ranges.set(constraintKey, {
+      from: fromRanges.get(constraintKey),
+      to: toRanges.get(constraintKey) as semver.Range,
+    });
+  }
+
+  return {
+    ranges,
+    rangesSimplified: simplifyRanges(ranges, rangeStyle),
+    explanations,
+    conflicts,
+    ignoredPackages,
+    overriddenPackages,
+  };
+};
+
+const computeCachedEngines = async (
+  ctx: CheckCommandContext,
+  debug: Debugger,
+): Promise<CacheableComputeEnginesResult> => {
+  const { path, workingDir, packageObject, packageLockObject, engines, ignore, overrides, omit, only } = ctx;
+  validateDependencyTypesSelection({ filename: packageLockObject.filename, omit, only });
+
+  const lockfilePath = getRelativePath({ path: joinPath(path, packageLockObject.filename), workingDir });
+  const version = await getNceVersion().catch(() => undefined);
+  const lockfileHash = await hashFile(lockfilePath).catch(() => undefined);
+
+  if (!version || !lockfileHash || !packageObject.data) {
+    return computeEngines({ ...(await loadComputeEnginesOptions(ctx, debug)), debug });
+  }
+
+  const cacheFile = getRelativePath({
+    path: getCacheFile(
+      path,
+      getCacheKey({
+        version,
+        lockfileHash,
+        packageFilename: packageObject.filename,
+        packageJson: packageObject.data,
+        engines,
+        ignore,
+        overrides,
+        omit,
+        only,
+      }),
+    ),
+    workingDir,
+  });
+  const cachedResult = await readCachedResult(cacheFile, version);
+
+  if (cachedResult) {
+    debug(`${chalk.white('Read computed engines range constraints from cache')} ${chalk.blue(cacheFile)}`);
+    return cachedResult;
+  }
+
+  const result = computeEngines({ ...(await loadComputeEnginesOptions(ctx, debug)), debug });
+
+  if (ctx.dryRun || !(await hasNodeModules(getRelativePath({ path, workingDir })))) {
+    debug(`${chalk.white('Skip writing cache in dry run or without node_modules')}`);
+    return result;
   }
 
-  if (mrr) {
-    debugConstraint(`${chalk.white(`Final computed engine range constraint:`)} ${chalk.blue(mrr.raw)}`);
-  } else {
-    debugConstraint(`${chalk.white(`No computed engine range constraint`)}`);
+  await writeCachedResult(cacheFile, version, result)
+    .then(() => {
+      debug(`${chalk.white('Wrote computed engines range constraints to cache')} ${chalk.blue(cacheFile)}`);
+      return pruneCachedResults(cacheFile);
+    })
+    .then(
+      staleFiles => debug(`${chalk.white('Pruned stale cache files:')} ${chalk.gray(staleFiles.length)}`),
+      (error: Error) => debug(`${chalk.white('Unable to write cache')} ${chalk.red(error.message)}`),
+    );
+
+  return result;
+};
+
+const setComputedEngines = (ctx: CheckCommandContext, result: CacheableComputeEnginesResult, debug: Debugger): void => {
+  const { ranges, explanations, conflicts, ignoredPackages, overriddenPackages } = result;
+  const nodeRange = ranges.get('node');
+
+  if (ctx.dropEol && ctx.releaseSchedule && nodeRange) {
+    const { range, dropped } = dropEndOfLifeNodeRange(nodeRange.to, ctx.releaseSchedule, ctx.date, debug);
+    ranges.set('node', { ...nodeRange, to: range });
+    ctx.droppedReleases = dropped;
   }
 
-  return mrr;
+  ctx.ranges = ranges;
+  ctx.explanations = explanations;
+  ctx.ignoredPackages = ignoredPackages;
+  ctx.overriddenPackages = overriddenPackages;
+
+  if (conflicts.length > 0) {
+    ctx.conflicts = conflicts;
+    throw new EnginesConflictError(generateConflictsMessage(conflicts), conflicts);
+  }
 };
 
-export const computeEnginesConstraints: CheckCommandTask = ({ ctx, debug }): void => {
-  const { packageObject, packageLockObject, engines } = ctx;
+const getComputeEnginesOptions = (ctx: CheckCommandContext): ComputeEnginesOptions => {
+  const { packageObject, packageLockObject, engines, ignore, overrides, omit, only } = ctx;
 
   if (!packageObject.data) {
     throw new Error(`${packageObject.filename} data is not defined.`);
@@ -303,32 +858,61 @@ export const computeEnginesConstraints: CheckCommandTask = ({ ctx, debug }): voi
     throw new Error(`${packageLockObject.filename} does not contain packages property.`);
   }
 
-  const filterEngineConstraintKey = (key: string): key is EngineConstraintKey =>
-    -1 !== EngineConstraintKeys.indexOf(key as EngineConstraintKey);
-  const packages = Object.entries(packageLockObject.data.packages);
-  const ranges = new Map<EngineConstraintKey, EngineConstraintChange>();
-  let constraintKeys: EngineConstraintKey[] = [...EngineConstraintKeys];
+  validateDependencyTypesSelection({ filename: packageLockObject.filename, omit, only });
+
+  return {
+    packageJson: packageObject.data,
+    lockfile: packageLockObject.data,
+    engines,
+    ignore,
+    overrides,
+    omit,
+    only,
+  };
+};
 
-  if (engines && engines.length > 0) {
-    constraintKeys = engines.filter(filterEngineConstraintKey);
+const loadComputeEnginesOptions = async (ctx: CheckCommandContext, debug: Debugger): Promise<ComputeEnginesOptions> => {
+  const { path, workingDir, packageLockObject } = ctx;
+
+  if (!packageLockObject.data) {
+    ctx.packageLockObject = await readPackageLockFile({
+      path,
+      workingDir,
+      filename: packageLockObject.filename,
+      debug,
+    });
   }
 
-  if (0 === constraintKeys.length) {
-    throw new Error(`No valid constraint key(s).`);
+  return getComputeEnginesOptions(ctx);
+};
+
+/**
+ * yarn.lock files do not mark dev, optional or peer packages, nor do pnpm-lock.yaml files mark peer packages.
+ */
+export const validateDependencyTypesSelection = ({
+  filename,
+  omit = [],
+  only,
+}: {
+  filename: string;
+  omit?: OmitType[] | undefined;
+  only?: OnlyType | undefined;
+}): void => {
+  if (yarnLockFilename === filename && (omit.length > 0 || only)) {
+    throw new Error(`${filename} does not mark dev, optional or peer packages, omit and only are not supported.`);
   }
 
-  for (const constraintKey of constraintKeys) {
-    ranges.set(constraintKey, {
-      from: computeEnginesConstraint({
-        packages: [['', { engines: packageObject.data.engines || {} }]],
-        constraintKey,
-        debug,
-      }),
-      to: computeEnginesConstraint({ packages, constraintKey, debug }),
-    });
+  if (pnpmLockFilename === filename && omit.includes('peer')) {
+    throw new Error(`${filename} does not mark peer packages, omitting peer packages is not supported.`);
   }
+};
 
-  ctx.ranges = ranges;
+export const computeEnginesConstraints: CheckCommandTask = ({ ctx, debug }): void | Promise<void> => {
+  if (ctx.cache) {
+    return computeCachedEngines(ctx, debug).then(result => setComputedEngines(ctx, result, debug));
+  }
+
+  setComputedEngines(ctx, computeEngines({ ...getComputeEnginesOptions(ctx), debug }), debug);
 };
 
 const createEnginesTable = (colWidths: number[]): Table => {
@@ -341,7 +925,7 @@ const createEnginesTable = (colWidths: number[]): Table => {
       'padding-right': 1,
     },
     colWidths,
-    colAligns: ['left', 'left', 'left', 'left'],
+    colAligns: colWidths.map(() => 'left'),
     chars: {
       top: '',
       'top-mid': '',
@@ -362,90 +946,361 @@ const createEnginesTable = (colWidths: number[]): Table => {
   });
 };
 
-export const generateUpdateCommandFromContext = (ctx: CheckCommandContext): string => {
-  const argv: string[] = ['nce'];
+export const generateExplanationMessage = ({
+  explanations,
+  packages,
+  rootName,
+}: {
+  explanations: Map<EngineConstraintKey, EngineConstraintExplanation>;
+  packages: Record<string, LockPackage>;
+  rootName: string;
+}): string => {
+  const chains = getDependencyChains(packages);
+  const formatPath = (path: string): string =>
+    (chains.get(path) || [path])
+      .map(chainPath => (chainPath ? getPackageNameFromPath(chainPath) : rootName))
+      .join(' > ');
+  const formatSources = (sources: EngineConstraintSource[]): string =>
+    sources.map(({ path, range }) => `${formatPath(path)} (${range})`).join(', ');
+  const messages: string[] = [];
+
+  for (const [engine, { culprits, ignored, invalid }] of explanations.entries()) {
+    let message = `${chalk.bold(engine)}:`;
+
+    if (0 === culprits.length) {
+      message += ` no package constrains this engine.`;
+    } else {
+      const colValues: [string, string, string, string][] = culprits.map(({ path, range, result }, index) => [
+        `${index + 1}.`,
+        formatPath(path),
+        range,
+        humanizeRange(new semver.Range(result, rangeOptions)),
+      ]);
+      const colWidths: number[] = [0, 1, 2, 3].map(col =>
+        Math.max(2, ...colValues.map(values => values[col].length + 2)),
+      );
+      const table: Table = createEnginesTable(colWidths);
+      table.push(...colValues);
+      message += `\n\n${table.toString()}`;
+    }
 
-  let path: string | undefined = undefined;
-  if (typeof ctx.path === 'string' && ctx.path.length > 0) {
-    path = getRelativePath({ path: ctx.path, workingDir: ctx.workingDir });
-  }
+    if (ignored.length > 0) {
+      message += `\n\nIgnored as supersets: ${formatSources(ignored)}`;
+    }
 
-  if (typeof path === 'string' && path.length > 0) {
-    argv.push(...['-p', path]);
-  }
+    if (invalid.length > 0) {
+      message += `\n\nInvalid ranges: ${formatSources(invalid)}`;
+    }
 
-  if (ctx.engines) {
-    argv.push(...ctx.engines.map(e => ['-e', e]).flat());
+    messages.push(message);
   }
 
-  if (ctx.quiet) {
-    argv.push('-q');
-  }
+  return `Explanation of computed engines range constraints:\n\n${messages.join('\n\n')}`;
+};
 
-  if (ctx.debug) {
-    argv.push('-d');
-  }
+export const explainComputedConstraints: CheckCommandTask = ({ ctx, parent }): void => {
+  const { explanations, packageObject, packageLockObject } = ctx;
 
-  if (ctx.verbose) {
-    argv.push('-v');
+  if (!explanations) {
+    throw new Error(`Computed engines range constraints explanations are not defined.`);
   }
 
-  argv.push('-u');
-
-  return argv.join(' ');
+  parent.title = `${parent.title}\n\n${generateExplanationMessage({
+    explanations,
+    packages: packageLockObject.data?.packages || {},
+    rootName: packageObject.data?.name || packageObject.filename,
+  })}`;
 };
 
-export const outputComputedConstraints: CheckCommandTask = ({ ctx, parent, debug }): void => {
-  const { ranges, packageObject, update } = ctx;
+export const generateConflictsMessage = (conflicts: EngineConstraintConflict[]): string => {
+  const rootLabel: string = '(root)';
+  const colValues: [string, string, string][] = conflicts.flatMap(({ engine, packages }) =>
+    packages.map(({ path, range }, index): [string, string, string] => [
+      0 === index ? engine : '',
+      path || rootLabel,
+      range,
+    ]),
+  );
+  const colWidths: number[] = [0, 1, 2].map(col => Math.max(2, ...colValues.map(values => values[col].length + 2)));
+  const table: Table = createEnginesTable(colWidths);
+  table.push(...colValues);
 
-  if (!ranges) {
-    throw new Error(`Computed engines range constraints are not defined.`);
-  }
+  return `Conflicting engines range constraints:\n\n${table.toString()}\n\nPin or replace one of the conflicting packages.`;
+};
 
-  const rangesSimplified = new Map<EngineConstraintKey, string | undefined>();
-  const arrowSeparator: string = '→';
-  let colWidths: [number, number, number, number] = [2, 2, 2, 2];
-  let colValues: [string, string, string, string][] = [];
+export const generateAppliedAdjustmentsMessage = ({
+  ignoredPackages = [],
+  overriddenPackages = [],
+}: Pick<CheckCommandContext, 'ignoredPackages' | 'overriddenPackages'>): string | undefined => {
+  const messages: string[] = [];
 
-  for (const [engine, range] of ranges.entries()) {
-    const rangeToHumanized = humanizeRange(range.to);
-    const rangeFromHumanized = humanizeRange(range.from);
+  if (ignoredPackages.length > 0) {
+    const colValues: [string, string][] = ignoredPackages.map(({ path, pattern }) => [path, pattern]);
+    const colWidths: number[] = [0, 1].map(col => Math.max(2, ...colValues.map(values => values[col].length + 2)));
+    const table: Table = createEnginesTable(colWidths);
+    table.push(...colValues);
+    messages.push(`Ignored packages:\n\n${table.toString()}`);
+  }
 
-    if (rangeToHumanized === rangeFromHumanized) {
-      continue;
-    }
+  if (overriddenPackages.length > 0) {
+    const colValues: [string, string, string, string][] = overriddenPackages.flatMap(({ path, pattern, from, to }) =>
+      Object.entries(to).map(([engine, range]): [string, string, string, string] => [
+        path,
+        pattern,
+        engine,
+        `${getConstraintFromEngines(from, engine)?.trim() || '*'}  →  ${range}`,
+      ]),
+    );
+    const colWidths: number[] = [0, 1, 2, 3].map(col =>
+      Math.max(2, ...colValues.map(values => values[col].length + 2)),
+    );
+    const table: Table = createEnginesTable(colWidths);
+    table.push(...colValues);
+    messages.push(`Overridden engines:\n\n${table.toString()}`);
+  }
+
+  return messages.length > 0 ? messages.join('\n\n') : undefined;
+};
+
+export const generateUpdateCommandFromContext = (ctx: CheckCommandContext): string => {
+  const argv: string[] = ['nce'];
+
+  let path: string | undefined = undefined;
+  if (typeof ctx.path === 'string' && ctx.path.length > 0) {
+    path = getRelativePath({ path: ctx.path, workingDir: ctx.workingDir });
+  }
+
+  if (typeof path === 'string' && path.length > 0) {
+    argv.push(...['-p', path]);
+  }
+
+  if (ctx.workspaces) {
+    argv.push('-w');
+  }
+
+  if (ctx.engines) {
+    argv.push(...ctx.engines.map(e => ['-e', e]).flat());
+  }
+
+  if (ctx.ignore && ctx.ignore.length > 0) {
+    argv.push(...ctx.ignore.map(pattern => ['--ignore', /[*?[\]{}!]/.test(pattern) ? `'${pattern}'` : pattern]).flat());
+  }
+
+  if (ctx.omit && ctx.omit.length > 0) {
+    argv.push('--omit', ctx.omit.join(','));
+  }
+
+  if (ctx.pins) {
+    argv.push(
+      '--pins',
+      ...Object.entries(ctx.pinVersions || {}).map(([engine, version]) => `--pin ${engine}@${version}`),
+    );
+  }
+
+  if (ctx.dropEol) {
+    argv.push('--drop-eol');
+  }
+
+  if (ctx.rangeStyle && 'preserve' !== ctx.rangeStyle) {
+    argv.push('--range-style', ctx.rangeStyle);
+  }
+
+  if (ctx.updatePolicy && 'exact' !== ctx.updatePolicy) {
+    argv.push('--update-policy', ctx.updatePolicy);
+  }
+
+  if (ctx.sort) {
+    argv.push('--sort');
+  }
+
+  if (ctx.quiet) {
+    argv.push('-q');
+  }
+
+  if (ctx.debug) {
+    argv.push('-d');
+  }
+
+  if (ctx.verbose) {
+    argv.push('-v');
+  }
+
+  argv.push('-u');
+
+  return argv.join(' ');
+};
+
+const engineConstraintChangeColors: Record<EngineConstraintChangeType, (text: string) => string> = {
+  tightened: chalk.green,
+  loosened: chalk.yellow,
+  incompatible: chalk.red,
+};
+
+export const getRangeChangeType = ({ from, to }: EngineConstraintChange): EngineConstraintChangeType => {
+  if (!from || semver.subset(to, from, rangeOptions)) {
+    return 'tightened';
+  }
+
+  return semver.subset(from, to, rangeOptions) ? 'loosened' : 'incompatible';
+};
+
+export const isAllowedByUpdatePolicy = (changeType: EngineConstraintChangeType, updatePolicy: UpdatePolicy): boolean =>
+  'exact' === updatePolicy || 'tightened' === changeType || ('loosen' === updatePolicy && 'loosened' === changeType);
+
+const generateNodeReleasesMessage = ({
+  ranges,
+  releaseSchedule,
+  date,
+  droppedReleases,
+  rangeStyle,
+}: CheckCommandContext): string | undefined => {
+  const range = ranges?.get('node');
+
+  if (!range || !releaseSchedule) {
+    return undefined;
+  }
+
+  const releases = getNodeReleases(range.to, releaseSchedule, date);
+  let message = `Node.js majors covered by ${humanizeRange(range.to, rangeStyle)}: ${
+    formatNodeReleases(releases) || 'none'
+  }.`;
+
+  if (droppedReleases && droppedReleases.length > 0) {
+    message += `\nDropped with --drop-eol: ${formatNodeReleases(droppedReleases)}.`;
+  }
+
+  return message;
+};
+
+/**
+ * Warn that `--drop-eol` kept the node range unchanged as every major it covers is end-of-life.
+ */
+export const getDropEndOfLifeWarning = ({
+  dropEol,
+  ranges,
+  releaseSchedule,
+  date,
+  rangeStyle,
+}: CheckCommandContext): string | undefined => {
+  const range = ranges?.get('node');
+
+  if (!dropEol || !range || !releaseSchedule) {
+    return undefined;
+  }
+
+  const releases = getNodeReleases(range.to, releaseSchedule, date);
+
+  return releases.length > 0 && releases.every(({ status }) => 'end-of-life' === status)
+    ? `No supported Node.js major left in ${humanizeRange(range.to, rangeStyle)}, nothing dropped with --drop-eol.`
+    : undefined;
+};
+
+export const dropEndOfLifeNodeRange = (
+  range: semver.Range,
+  releaseSchedule: NodeReleaseSchedule,
+  date: Date,
+  debug: Debugger,
+): { range: semver.Range; dropped: NodeRelease[] } => {
+  const { minimum, dropped } = dropEndOfLifeReleases(getNodeReleases(range, releaseSchedule, date));
+
+  if (!minimum) {
+    return { range, dropped };
+  }
+
+  const minimumRange = new semver.Range(`>=${semver.coerce(minimum.major)?.version}`, rangeOptions);
+  debug(`${chalk.white('Drop Node.js end-of-life majors with')} ${chalk.blue(minimumRange.raw)}`);
+
+  const intervals = intersectRangeIntervals(toRangeIntervals(range), toRangeIntervals(minimumRange));
+
+  if (0 === intervals.length) {
+    throw new RangeConflictError(range, minimumRange);
+  }
+
+  return { range: new semver.Range(formatRangeIntervals(intervals), rangeOptions), dropped };
+};
+
+export const outputComputedConstraints: CheckCommandTask = ({ ctx, parent, debug }): void => {
+  const { ranges, packageObject, update, updatePolicy = 'exact', rangeStyle } = ctx;
+
+  if (!ranges) {
+    throw new Error(`Computed engines range constraints are not defined.`);
+  }
+
+  const rangesChanged = simplifyRanges(ranges, rangeStyle);
+  const rangesSimplified = new Map<EngineConstraintKey, string>();
+  const arrowSeparator: string = '→';
+  let colWidths: [number, number, number, number, number] = [2, 2, 2, 2, 2];
+  let colValues: [string, string, string, string, string][] = [];
+
+  for (const [engine, rangeToHumanized] of rangesChanged.entries()) {
+    const range = ranges.get(engine) as EngineConstraintChange;
+    const rangeFromHumanized = humanizeRange(range.from, rangeStyle);
+    const changeType = getRangeChangeType(range);
+    const isAllowed = isAllowedByUpdatePolicy(changeType, updatePolicy);
+    const changeLabel = isAllowed ? changeType : `${changeType} (skipped by ${updatePolicy} policy)`;
 
-    rangesSimplified.set(engine, rangeToHumanized);
     debug.extend(engine)(
-      `${chalk.white(`Simplified computed engine range constraint:`)} ${chalk.blue(rangeToHumanized)}`,
+      `${chalk.white(`Simplified computed engine range constraint:`)} ${chalk.blue(rangeToHumanized)} ${chalk.gray(
+        changeLabel,
+      )}`,
     );
+
+    if (isAllowed) {
+      rangesSimplified.set(engine, rangeToHumanized);
+    }
+
     colWidths = [
       Math.max(colWidths[0], engine.length + 2),
       Math.max(colWidths[1], rangeFromHumanized.length + 2),
       arrowSeparator.length + 2,
       Math.max(colWidths[3], rangeToHumanized.length + 2),
+      Math.max(colWidths[4], changeLabel.length + 2),
     ];
-    colValues.push([engine, rangeFromHumanized, arrowSeparator, rangeToHumanized]);
+    colValues.push([
+      engine,
+      rangeFromHumanized,
+      arrowSeparator,
+      rangeToHumanized,
+      engineConstraintChangeColors[changeType](changeLabel),
+    ]);
   }
 
-  if (0 === rangesSimplified.size) {
-    parent.title = `All computed engines range constraints are up-to-date ${chalk.green(':)')}`;
-  } else {
+  let title: string = `All computed engines range constraints are up-to-date ${chalk.green(':)')}`;
+
+  if (rangesChanged.size > 0) {
     const table: Table = createEnginesTable(colWidths);
     table.push(...colValues);
-    let title = `Computed engines range constraints:\n\n${table.toString()}`;
+    title = `Computed engines range constraints:\n\n${table.toString()}`;
+
+    const nodeReleasesMessage = generateNodeReleasesMessage(ctx);
 
-    if (!update) {
+    if (rangesChanged.has('node') && nodeReleasesMessage) {
+      title += `\n\n${nodeReleasesMessage}`;
+    }
+
+    if (!update && rangesSimplified.size > 0) {
       title += `\n\nRun ${chalk.cyan(generateUpdateCommandFromContext(ctx))} to upgrade ${packageObject.filename}.`;
     }
+  }
 
-    parent.title = title;
+  const dropEndOfLifeWarning = getDropEndOfLifeWarning(ctx);
+
+  if (dropEndOfLifeWarning) {
+    title += `\n\n${chalk.yellow(dropEndOfLifeWarning)}`;
   }
 
+  const appliedAdjustmentsMessage = generateAppliedAdjustmentsMessage(ctx);
+
+  if (appliedAdjustmentsMessage) {
+    title += `\n\n${appliedAdjustmentsMessage}`;
+  }
+
+  parent.title = title;
+
   ctx.rangesSimplified = rangesSimplified;
 };
 
-export const updatePackageJson: CheckCommandTask = async ({ ctx, debug }): Promise<void> => {
+export const updatePackageJson: CheckCommandTask = async ({ ctx, parent, debug }): Promise<void> => {
   const { packageObject, rangesSimplified } = ctx;
 
   if (!rangesSimplified) {
@@ -462,10 +1317,421 @@ export const updatePackageJson: CheckCommandTask = async ({ ctx, debug }): Promi
 
   packageObject.data.engines = lodash.merge({}, packageObject.data.engines, Object.fromEntries(rangesSimplified));
 
+  const content = await getText(packageObject.relativePath).catch(() => '');
+  const format = detectJSONFormat(content);
+  const data = ctx.sort ? sortPackageJson(packageObject.data) : packageObject.data;
+  const hasVoltaPin = (ctx.versionPins || []).some(pin => 'volta' === pin.source && pin.proposed);
+  const replacedEngines = !ctx.sort && replaceJsonProperty(content, 'engines', packageObject.data.engines, format);
+  const replacedContent =
+    replacedEngines && hasVoltaPin
+      ? replaceJsonProperty(replacedEngines, 'volta', packageObject.data.volta, format)
+      : replacedEngines;
+  const updatedContent = replacedContent || stringifyJson(data, format);
+
+  if (ctx.dryRun) {
+    debug(`${chalk.white(`Dry run, compute diff of`)} ${chalk.blue(packageObject.relativePath)}`);
+
+    if (updatedContent !== content) {
+      const diff = createTwoFilesPatch(
+        `a/${packageObject.relativePath}`,
+        `b/${packageObject.relativePath}`,
+        content,
+        updatedContent,
+      );
+      ctx.diff = `${ctx.diff || ''}${diff}`;
+      parent.title = `${parent.title}\n\n${colorizeDiff(diff)}`;
+    }
+
+    return;
+  }
+
   debug(`${chalk.white(`Write JSON to`)} ${chalk.blue(packageObject.relativePath)}`);
-  return writeJson(packageObject.relativePath, sortPackageJson(packageObject.data));
+  return writeText(packageObject.relativePath, updatedContent);
 };
 
+const versionPinStatusColors: Record<VersionPinStatus, (text: string) => string> = {
+  satisfied: chalk.green,
+  unsatisfied: chalk.red,
+  unsupported: chalk.gray,
+};
+
+export const generateVersionPinsMessage = (ctx: CheckCommandContext): string => {
+  const { versionPins = [], update } = ctx;
+
+  if (0 === versionPins.length) {
+    return `No version pins found in ${[...VersionPinFilenames, 'volta'].join(', ')}.`;
+  }
+
+  const arrowSeparator: string = '→';
+  const colWidths: number[] = [2, 2, 2, 2, 2, 2];
+  const colValues: string[][] = versionPins.map(({ file, source, engine, version, status, proposed }) => {
+    const values = [
+      'volta' === source ? `${file} (volta)` : file,
+      engine,
+      version,
+      proposed ? arrowSeparator : '',
+      proposed || '',
+      status,
+    ];
+    values.forEach((value, index) => (colWidths[index] = Math.max(colWidths[index] as number, value.length + 2)));
+
+    return [...values.slice(0, 5), versionPinStatusColors[status](status)];
+  });
+
+  const table: Table = createEnginesTable(colWidths);
+  table.push(...colValues);
+  let message = `Version pins:\n\n${table.toString()}`;
+
+  if (!update && versionPins.some(({ proposed }) => proposed)) {
+    message += `\n\nRun ${chalk.cyan(generateUpdateCommandFromContext(ctx))} to update version pins.`;
+  }
+
+  return message;
+};
+
+export const checkVersionPins: CheckCommandTask = async ({ ctx, parent, debug }): Promise<void> => {
+  const { path, workingDir, packageObject, ranges, pinVersions } = ctx;
+
+  if (!ranges) {
+    throw new Error(`Computed engines range constraints are not defined.`);
+  }
+
+  if (!packageObject.data) {
+    throw new Error(`${packageObject.filename} data is not defined.`);
+  }
+
+  const pins = await readVersionPins({
+    path: getRelativePath({ path, workingDir }),
+    packageJson: packageObject.data,
+    packageFile: packageObject.relativePath || packageObject.filename,
+  });
+  debug(`${chalk.white('Found')} ${chalk.blue(pins.length)} ${chalk.white('version pins')}`);
+
+  ctx.versionPins = getVersionPinChecks(pins, ranges, pinVersions);
+  parent.title = `${parent.title}\n\n${generateVersionPinsMessage(ctx)}`;
+};
+
+export const updateVersionPins: CheckCommandTask = async ({ ctx, parent, debug }): Promise<void> => {
+  const { packageObject, versionPins = [] } = ctx;
+
+  for (const pin of versionPins) {
+    if (!pin.proposed) {
+      continue;
+    }
+
+    if ('volta' === pin.source) {
+      if (!packageObject.data) {
+        throw new Error(`${packageObject.filename} data is not defined.`);
+      }
+
+      debug(`${chalk.white(`Pin ${pin.engine} version in volta to`)} ${chalk.blue(pin.proposed)}`);
+      packageObject.data.volta = { ...packageObject.data.volta, [pin.engine]: pin.proposed };
+      continue;
+    }
+
+    const content = await getText(pin.file);
+    const updatedContent = replaceVersionPin(content, pin, pin.proposed);
+
+    if (ctx.dryRun) {
+      const diff = createTwoFilesPatch(`a/${pin.file}`, `b/${pin.file}`, content, updatedContent);
+      ctx.diff = `${ctx.diff || ''}${diff}`;
+      parent.title = `${parent.title}\n\n${colorizeDiff(diff)}`;
+      continue;
+    }
+
+    debug(
+      `${chalk.white(`Pin ${pin.engine} version in`)} ${chalk.blue(pin.file)} ${chalk.white('to')} ${chalk.blue(
+        pin.proposed,
+      )}`,
+    );
+    await writeText(pin.file, updatedContent);
+  }
+};
+
+export const colorizeDiff = (diff: string): string =>
+  diff
+    .trimEnd()
+    .split('\n')
+    .map(line => {
+      if (line.startsWith('+++') || line.startsWith('---') || line.startsWith('===')) {
+        return chalk.bold(line);
+      }
+
+      if (line.startsWith('+')) {
+        return chalk.green(line);
+      }
+
+      if (line.startsWith('-')) {
+        return chalk.red(line);
+      }
+
+      return line.startsWith('@@') ? chalk.cyan(line) : line;
+    })
+    .join('\n');
+
+export const writePatchFile: CheckCommandTask = async ({ ctx, debug }): Promise<void> => {
+  const { patchFile } = ctx;
+
+  if (!patchFile) {
+    throw new Error(`Patch file path is not defined.`);
+  }
+
+  const diffs = [ctx, ...(ctx.workspaceContexts || [])]
+    .map(({ diff }) => diff)
+    .filter((diff): diff is string => !!diff);
+
+  debug(`${chalk.white(`Write patch to`)} ${chalk.blue(patchFile)}`);
+  return writeText(patchFile, diffs.join(''));
+};
+
+export const getUnsatisfiedPackages = (
+  packages: [string, LockPackage][],
+  versions: Map<EngineConstraintKey, string>,
+): UnsatisfiedPackage[] => {
+  const unsatisfiedPackages: UnsatisfiedPackage[] = [];
+
+  for (const [path, pkg] of packages) {
+    if ('' === path) {
+      continue;
+    }
+
+    for (const [engine, version] of versions) {
+      const constraint = getConstraintFromEngines(pkg.engines, engine);
+      const validRange = constraint ? semver.validRange(constraint, rangeOptions) : null;
+
+      if (constraint && validRange && !semver.satisfies(version, validRange, rangeOptions)) {
+        unsatisfiedPackages.push({ path, range: constraint, engine, version });
+      }
+    }
+  }
+
+  return unsatisfiedPackages;
+};
+
+const generateRuntimeMessage = ({
+  runtimeVersions = [],
+  unsatisfiedPackages = [],
+  skippedRuntimes = [],
+}: CheckCommandContext): string => {
+  const formatStatus = (satisfied: boolean): string => (satisfied ? 'satisfied' : 'unsatisfied');
+  const colorStatus = (status: string): string => ('satisfied' === status ? chalk.green(status) : chalk.red(status));
+  const colWidths: number[] = [2, 2, 2, 2, 2, 2];
+  const colValues: string[][] = runtimeVersions.map(
+    ({ engine, version, declared, computed, satisfiesDeclared, satisfiesComputed }) => {
+      const values = [
+        engine,
+        version,
+        declared,
+        formatStatus(satisfiesDeclared),
+        computed,
+        formatStatus(satisfiesComputed),
+      ];
+      values.forEach((value, index) => (colWidths[index] = Math.max(colWidths[index] as number, value.length + 2)));
+
+      return values.map((value, index) => (3 === index || 5 === index ? colorStatus(value) : value));
+    },
+  );
+
+  if (0 === colValues.length) {
+    return `No runtime version detected for the checked engines.`;
+  }
+
+  const table: Table = createEnginesTable(colWidths);
+  table.push(...colValues);
+  let message = `Runtime versions (declared, then computed engines range constraints):\n\n${table.toString()}`;
+
+  if (skippedRuntimes.length > 0) {
+    message += `\n\nSkipped ${skippedRuntimes.join(
+      ', ',
+    )}: no version detected from npm_config_user_agent or --version.`;
+  }
+
+  if (unsatisfiedPackages.length > 0) {
+    const packagesColWidths: number[] = [2, 2, 2];
+    const packagesColValues: string[][] = unsatisfiedPackages.map(({ path, engine, range }) => {
+      const values = [path, engine, range];
+      values.forEach(
+        (value, index) => (packagesColWidths[index] = Math.max(packagesColWidths[index] as number, value.length + 2)),
+      );
+
+      return values;
+    });
+    const packagesTable: Table = createEnginesTable(packagesColWidths);
+    packagesTable.push(...packagesColValues);
+    message += `\n\nPackages not satisfied by the current runtime:\n\n${packagesTable.toString()}`;
+  }
+
+  return message;
+};
+
+export const checkRuntimeVersions: CheckCommandTask = async ({ ctx, parent, debug }): Promise<void> => {
+  const { packageLockObject, ranges, ignore, overrides, omit, only } = ctx;
+
+  if (!ranges) {
+    throw new Error(`Computed engines range constraints are not defined.`);
+  }
+
+  if (!packageLockObject.data) {
+    throw new Error(`${packageLockObject.filename} data is not defined.`);
+  }
+
+  const runtimeVersions = getRuntimeVersions();
+
+  for (const engine of ranges.keys()) {
+    if (!runtimeVersions.has(engine) && (versionCommandEngines as ReadonlyArray<string>).includes(engine)) {
+      const version = await getCommandVersion(engine);
+      debug(`${chalk.white(`Version of ${engine} --version:`)} ${chalk.blue(version || 'not found')}`);
+
+      if (version) {
+        runtimeVersions.set(engine, version);
+      }
+    }
+  }
+
+  const versions = new Map<EngineConstraintKey, string>(
+    [...ranges.keys()].flatMap(engine => {
+      const version = runtimeVersions.get(engine);
+      return version ? [[engine, version]] : [];
+    }),
+  );
+  debug(`${chalk.white('Runtime versions:')} ${chalk.blue([...versions].map(v => v.join('@')).join(', '))}`);
+  ctx.skippedRuntimes = [...ranges.keys()].filter(engine => !versions.has(engine));
+
+  ctx.runtimeVersions = [...versions].map(([engine, version]) => {
+    const { from, to } = ranges.get(engine) as EngineConstraintChange;
+
+    return {
+      engine,
+      version,
+      declared: humanizeRange(from, ctx.rangeStyle),
+      computed: humanizeRange(to, ctx.rangeStyle),
+      satisfiesDeclared: !from || semver.satisfies(version, from, rangeOptions),
+      satisfiesComputed: semver.satisfies(version, to, rangeOptions),
+    };
+  });
+
+  const { packages } = selectPackages({ lockfile: packageLockObject.data, ignore, overrides, omit, only, debug });
+  ctx.unsatisfiedPackages = getUnsatisfiedPackages(packages, versions);
+  parent.title = generateRuntimeMessage(ctx);
+
+  const unsatisfiedEngines = lodash.uniq([
+    ...ctx.runtimeVersions
+      .filter(({ satisfiesDeclared, satisfiesComputed }) => !satisfiesDeclared || !satisfiesComputed)
+      .map(({ engine }) => engine),
+    ...ctx.unsatisfiedPackages.map(({ engine }) => engine),
+  ]);
+
+  if (unsatisfiedEngines.length > 0) {
+    throw new UnsatisfiedRuntimeError(unsatisfiedEngines);
+  }
+};
+
+export const checkEnginesUpToDate: CheckCommandTask = ({ ctx }): void => {
+  const outdatedPaths = [ctx, ...(ctx.workspaceContexts || [])]
+    .filter(({ rangesSimplified }) => rangesSimplified && rangesSimplified.size > 0)
+    .map(({ packageObject }) => packageObject.relativePath || packageObject.filename);
+  const unsatisfiedPinFiles = (ctx.versionPins || [])
+    .filter(({ status, file }) => 'unsatisfied' === status && !outdatedPaths.includes(file))
+    .map(({ file }) => file);
+  outdatedPaths.push(...new Set(unsatisfiedPinFiles));
+
+  if (outdatedPaths.length > 0) {
+    throw new OutdatedEnginesError(outdatedPaths);
+  }
+};
+
+export const resolveWorkspaces: CheckCommandTask = ({ ctx, debug }): void => {
+  const { packageObject, packageLockObject } = ctx;
+
+  if (!packageObject.data) {
+    throw new Error(`${packageObject.filename} data is not defined.`);
+  }
+
+  if (!packageLockObject.data) {
+    throw new Error(`${packageLockObject.filename} data is not defined.`);
+  }
+
+  const globs = getWorkspacesGlobs(packageObject.data);
+
+  if (0 === globs.length) {
+    throw new Error(`${packageObject.filename} does not contain workspaces property.`);
+  }
+
+  const { packages } = packageLockObject.data;
+  const workspacePaths = getWorkspacePaths(packages, globs);
+
+  if (0 === workspacePaths.length) {
+    throw new Error(`No workspace found in ${packageLockObject.filename}.`);
+  }
+
+  ctx.workspaceContexts = workspacePaths.map(workspacePath => {
+    const workspacePackages = getWorkspacePackages(packages, workspacePath);
+    debug(
+      `${chalk.white('Workspace')} ${chalk.blue(workspacePath)} ${chalk.white('depends on')} ${chalk.blue(
+        Object.keys(workspacePackages).length,
+      )} ${chalk.white('packages')}`,
+    );
+
+    return {
+      ...lodash.omit(ctx, [
+        'ranges',
+        'rangesSimplified',
+        'diff',
+        'droppedReleases',
+        'versionPins',
+        'workspaceContexts',
+      ]),
+      packageObject: { filename: joinPath(workspacePath, packageJSONFilename) },
+      packageLockObject: { ...packageLockObject, data: { packages: workspacePackages } },
+    };
+  });
+};
+
+const skipUpdate = ({ update, dryRun, only }: CheckCommandContext): string | boolean => {
+  if (!update && !dryRun) {
+    return 'Update is disabled by default.';
+  }
+
+  return 'dev' === only ? 'Update is disabled when only dev packages are checked.' : false;
+};
+
+export const workspaceCommandTasks = ({
+  context,
+  parent,
+  debug,
+}: {
+  context: CheckCommandContext;
+  parent: Omit<ListrTaskWrapper<CheckCommandContext, typeof ListrRenderer>, 'skip' | 'enabled'>;
+  debug: Debugger;
+}): ListrTask<CheckCommandContext>[] => [
+  {
+    title: `Load ${context.packageObject.filename} file...`,
+    task: (ctx, task) => loadPackageFile({ ctx, task, parent, debug }),
+  },
+  {
+    title: 'Compute engines range constraints...',
+    task: (ctx, task) => computeEnginesConstraints({ ctx, task, parent, debug }),
+  },
+  {
+    title: 'Output computed engines range constraints...',
+    task: (ctx, task) => outputComputedConstraints({ ctx, task, parent, debug }),
+  },
+  ...(context.explain
+    ? [
+        {
+          title: 'Explain computed engines range constraints...',
+          task: (ctx: CheckCommandContext, task: ListrTaskWrapper<CheckCommandContext, typeof ListrRenderer>) =>
+            explainComputedConstraints({ ctx, task, parent, debug }),
+        },
+      ]
+    : []),
+  {
+    title: `Update ${context.packageObject.filename} file...`,
+    skip: ctx => skipUpdate(ctx),
+    task: (ctx, task) => updatePackageJson({ ctx, task, parent, debug }),
+  },
+];
+
 export const checkCommandTasks = ({
   context,
   parent,
@@ -491,31 +1757,147 @@ export const checkCommandTasks = ({
     title: 'Output computed engines range constraints...',
     task: (ctx, task) => outputComputedConstraints({ ctx, task, parent, debug }),
   },
+  ...(context.explain
+    ? [
+        {
+          title: 'Explain computed engines range constraints...',
+          task: (ctx: CheckCommandContext, task: ListrTaskWrapper<CheckCommandContext, typeof ListrRenderer>) =>
+            explainComputedConstraints({ ctx, task, parent, debug }),
+        },
+      ]
+    : []),
+  ...(context.pins
+    ? [
+        {
+          title: 'Check version pins...',
+          task: (ctx: CheckCommandContext, task: ListrTaskWrapper<CheckCommandContext, typeof ListrRenderer>) =>
+            checkVersionPins({ ctx, task, parent, debug }),
+        },
+        {
+          title: 'Update version pins...',
+          skip: (ctx: CheckCommandContext) => skipUpdate(ctx),
+          task: (ctx: CheckCommandContext, task: ListrTaskWrapper<CheckCommandContext, typeof ListrRenderer>) =>
+            updateVersionPins({ ctx, task, parent, debug }),
+        },
+      ]
+    : []),
   {
     title: `Update ${context.packageObject.filename} file...`,
-    skip: ({ update }) => (!update ? 'Update is disabled by default.' : !update),
+    skip: ctx => skipUpdate(ctx),
     task: (ctx, task) => updatePackageJson({ ctx, task, parent, debug }),
   },
+  ...(context.workspaces
+    ? [
+        {
+          title: 'Check workspaces engines range constraints...',
+          task: (ctx: CheckCommandContext, task: ListrTaskWrapper<CheckCommandContext, typeof ListrRenderer>) => {
+            resolveWorkspaces({ ctx, task, parent, debug });
+            return task.newListr(
+              (ctx.workspaceContexts || []).map(workspaceContext => ({
+                title: `Checking ${workspaceContext.packageObject.filename} file...`,
+                task: (
+                  _: CheckCommandContext,
+                  workspaceTask: ListrTaskWrapper<CheckCommandContext, typeof ListrRenderer>,
+                ) =>
+                  workspaceTask.newListr(
+                    workspaceParent =>
+                      workspaceCommandTasks({ context: workspaceContext, parent: workspaceParent, debug }),
+                    { ctx: workspaceContext },
+                  ),
+              })),
+            );
+          },
+        },
+      ]
+    : []),
+  ...(context.patchFile
+    ? [
+        {
+          title: 'Write patch file...',
+          task: (ctx: CheckCommandContext, task: ListrTaskWrapper<CheckCommandContext, typeof ListrRenderer>) =>
+            writePatchFile({ ctx, task, parent, debug }),
+        },
+      ]
+    : []),
+  ...(context.check
+    ? [
+        {
+          title: 'Check engines range constraints are up-to-date...',
+          task: (ctx: CheckCommandContext, task: ListrTaskWrapper<CheckCommandContext, typeof ListrRenderer>) =>
+            checkEnginesUpToDate({ ctx, task, parent, debug }),
+        },
+      ]
+    : []),
+];
+
+export const doctorCommandTasks = ({
+  context,
+  parent,
+  debug,
+}: {
+  context: CheckCommandContext;
+  parent: Omit<ListrTaskWrapper<CheckCommandContext, typeof ListrRenderer>, 'skip' | 'enabled'>;
+  debug: Debugger;
+}): ListrTask<CheckCommandContext>[] => [
+  {
+    title: `Load ${context.packageObject.filename} file...`,
+    task: (ctx, task) => loadPackageFile({ ctx, task, parent, debug }),
+  },
+  {
+    title: `Load ${context.packageLockObject.filename} file...`,
+    task: (ctx, task) => loadPackageLockFile({ ctx, task, parent, debug }),
+  },
+  {
+    title: 'Compute engines range constraints...',
+    task: (ctx, task) => computeEnginesConstraints({ ctx, task, parent, debug }),
+  },
+  {
+    title: 'Check runtime versions...',
+    task: (ctx, task) => checkRuntimeVersions({ ctx, task, parent, debug }),
+  },
 ];
 
+export const refreshNodeReleaseSchedule: CheckCommandTask = async ({ ctx, task, debug }): Promise<void> => {
+  const path = getCachedNodeReleaseSchedulePath();
+  debug(`${chalk.white('Fetch Node.js release schedule from')} ${chalk.blue(nodeReleaseScheduleUrl)}`);
+  const releaseSchedule = await fetchNodeReleaseSchedule();
+
+  debug(`${chalk.white('Write Node.js release schedule to')} ${chalk.blue(path)}`);
+  await writeNodeReleaseSchedule(path, releaseSchedule);
+
+  ctx.releaseSchedule = releaseSchedule;
+  task.title = `Node.js release schedule refreshed with ${Object.keys(releaseSchedule).length} releases in ${path}.`;
+};
+
 export const cliCommandTask = (
   options: ListrBaseClassOptions<CheckCommandContext, ListrRendererValue>,
   debug: Debugger,
 ): Listr<CheckCommandContext, ListrRendererValue> =>
   new Listr(
-    [
-      {
-        title: `Checking npm package engines range constraints in ${options.ctx?.packageLockObject.filename} file...`,
-        task: (ctx, task) => {
-          const { path, workingDir, packageLockObject } = ctx;
-          const completePath = joinPath(workingDir, path, packageLockObject.filename);
-          task.title = `Checking npm package engines range constraints in ${completePath.replace(
-            `${workingDir}${sep}`,
-            '',
-          )} file...`;
-          return task.newListr(parent => checkCommandTasks({ context: ctx, parent, debug }));
-        },
-      },
-    ],
+    options.ctx?.refreshReleaseSchedule
+      ? [
+          {
+            title: 'Refresh Node.js release schedule...',
+            task: (ctx, task) => refreshNodeReleaseSchedule({ ctx, task, parent: task, debug }),
+          },
+        ]
+      : [
+          {
+            title: `Checking npm package engines range constraints in ${options.ctx?.packageLockObject.filename} file...`,
+            task: (ctx, task) => {
+              const { path, workingDir, packageLockObject } = ctx;
+              const completePath = joinPath(workingDir, path, packageLockObject.filename);
+              task.title = `Checking npm package engines range constraints in ${completePath.replace(
+                `${workingDir}${sep}`,
+                '',
+              )} file...`;
+              return task.newListr(parent =>
+                ctx.doctor
+                  ? doctorCommandTasks({ context: ctx, parent, debug })
+                  : checkCommandTasks({ context: ctx, parent, debug }),
+              );
+            },
+          },
+        ],
     options,
   );
@@ -1,36 +1,225 @@
 /* istanbul ignore file */
-import type { Range } from 'semver';
+import type { Range, SemVer } from 'semver';
 
 export const packageJSONFilename = 'package.json' as const;
 export const packageLockJSONFilename = 'package-lock.json' as const;
+export const yarnLockFilename = 'yarn.lock' as const;
+export const pnpmLockFilename = 'pnpm-lock.yaml' as const;
+export const LockFilenames = [packageLockJSONFilename, yarnLockFilename, pnpmLockFilename] as const;
+export type LockFilename = typeof LockFilenames[number];
+export const VersionPinFilenames = ['.nvmrc', '.node-version', '.tool-versions'] as const;
+export type VersionPinSource = typeof VersionPinFilenames[number] | 'volta';
+export type VersionPinStatus = 'satisfied' | 'unsatisfied' | 'unsupported';
+export const OutputFormats = ['table', 'json'] as const;
+export type OutputFormat = typeof OutputFormats[number];
+export const OmitTypes = ['dev', 'optional', 'peer'] as const;
+export type OmitType = typeof OmitTypes[number];
+export const OnlyTypes = ['dev'] as const;
+export type OnlyType = typeof OnlyTypes[number];
+export const UpdatePolicies = ['exact', 'tighten-only', 'loosen'] as const;
+export type UpdatePolicy = typeof UpdatePolicies[number];
+export const RangeStyles = ['preserve', 'caret', 'tilde', 'gte'] as const;
+export type RangeStyle = typeof RangeStyles[number];
+export type EngineConstraintChangeType = 'tightened' | 'loosened' | 'incompatible';
 export const EngineConstraintKeys = ['node', 'npm', 'yarn'] as const;
-export type EngineConstraintKeysType = typeof EngineConstraintKeys;
-export type EngineConstraintKey = EngineConstraintKeysType[number];
+export type EngineConstraintKey = string;
 export type EngineConstraintChange = { from: Range | undefined; to: Range };
+export type RangeBound = { version: SemVer; inclusive: boolean };
+export type RangeInterval = { lower?: RangeBound; upper?: RangeBound };
+export type EngineConstraintSource = { path: string; range: string };
+export type WatchedEngineChange = { engine: EngineConstraintKey; from: string; to: string; causes: string[] };
+export type SchemaValidationDiagnostic = {
+  path: string;
+  instancePath: string;
+  message: string;
+  packageKey?: string;
+  line?: number;
+  column?: number;
+};
+export type EngineConstraintExplanation = {
+  culprits: (EngineConstraintSource & { result: string })[];
+  ignored: EngineConstraintSource[];
+  invalid: EngineConstraintSource[];
+};
+export type EngineConstraintConflict = {
+  engine: EngineConstraintKey;
+  packages: [EngineConstraintSource, EngineConstraintSource];
+};
 export type LockPackageEnginesObject = Partial<Record<EngineConstraintKey, string>>;
 export type LockPackageEnginesArray = string[];
 export type LockPackageEngines = LockPackageEnginesObject | LockPackageEnginesArray;
+export type EnginesOverrides = Record<string, LockPackageEnginesObject>;
+export type IgnoredPackage = { path: string; pattern: string };
+export type OverriddenPackage = IgnoredPackage & { from: LockPackageEngines; to: LockPackageEnginesObject };
 export type LockPackage = {
-  engines: LockPackageEngines;
+  engines?: LockPackageEngines;
+  name?: string;
+  version?: string;
+  resolved?: string;
+  link?: boolean;
+  dependencies?: Record<string, string>;
+  devDependencies?: Record<string, string>;
+  optionalDependencies?: Record<string, string>;
+  peerDependencies?: Record<string, string>;
+  dev?: boolean;
+  optional?: boolean;
+  devOptional?: boolean;
+  peer?: boolean;
 };
+export type VersionPin = { file: string; source: VersionPinSource; engine: EngineConstraintKey; version: string };
+export type VersionPinCheck = VersionPin & { status: VersionPinStatus; proposed?: string };
+export type RuntimeVersionCheck = {
+  engine: EngineConstraintKey;
+  version: string;
+  declared: string;
+  computed: string;
+  satisfiesDeclared: boolean;
+  satisfiesComputed: boolean;
+};
+export type UnsatisfiedPackage = EngineConstraintSource & { engine: EngineConstraintKey; version: string };
+export type NodeReleaseSchedule = Record<
+  string,
+  { start: string; lts?: string; maintenance?: string; end: string; codename?: string }
+>;
+export type NodeReleaseStatus =
+  | 'unreleased'
+  | 'current'
+  | 'active LTS'
+  | 'maintenance LTS'
+  | 'maintenance'
+  | 'end-of-life';
+export type NodeRelease = { major: string; status: NodeReleaseStatus };
+export type JSONFormat = { indent: string; eol: string; trailingNewline: boolean };
 export type FileObject<T> = { filename: string; relativePath?: string; data?: T };
-export type PackageJSONSchema = LockPackage;
+export type LoadedFileObject<T> = FileObject<T> & { relativePath: string; data: T };
+export type PackageJSONSchema = LockPackage & {
+  workspaces?: string[] | { packages?: string[] };
+  volta?: Record<string, string>;
+};
 export type PackageLockJSONSchema = {
   packages: {
     [k: string]: LockPackage;
   };
 };
+export type NceConfig = {
+  engines?: string[];
+  ignore?: string[];
+  overrides?: EnginesOverrides;
+  omit?: OmitType[];
+  only?: OnlyType;
+  format?: OutputFormat;
+  update?: boolean;
+  updatePolicy?: UpdatePolicy;
+  rangeStyle?: RangeStyle;
+  pins?: boolean;
+  dropEol?: boolean;
+  cache?: boolean;
+  lockfile?: LockFilename;
+};
 export type CLIContext = {
   path: string;
   update: boolean;
+  updatePolicy: UpdatePolicy;
+  rangeStyle: RangeStyle;
+  dryRun: boolean;
+  patchFile: string | undefined;
+  sort: boolean;
+  check: boolean;
+  workspaces: boolean;
+  explain: boolean;
+  format: OutputFormat;
   quiet: boolean;
   workingDir: string;
   verbose: boolean;
   debug: boolean;
   engines: string[] | undefined;
+  ignore: string[];
+  overrides: EnginesOverrides;
+  omit: OmitType[];
+  only: OnlyType | undefined;
+  pins: boolean;
+  pinVersions: Record<EngineConstraintKey, string>;
+  doctor: boolean;
+  refreshReleaseSchedule: boolean;
+  dropEol: boolean;
+  date: Date;
+  cache: boolean;
   packageObject: FileObject<PackageJSONSchema>;
   packageLockObject: FileObject<PackageLockJSONSchema>;
   ranges?: Map<EngineConstraintKey, EngineConstraintChange>;
   rangesSimplified?: Map<EngineConstraintKey, string | undefined>;
+  diff?: string;
+  releaseSchedule?: NodeReleaseSchedule;
+  droppedReleases?: NodeRelease[];
+  conflicts?: EngineConstraintConflict[];
+  ignoredPackages?: IgnoredPackage[];
+  overriddenPackages?: OverriddenPackage[];
+  versionPins?: VersionPinCheck[];
+  runtimeVersions?: RuntimeVersionCheck[];
+  skippedRuntimes?: EngineConstraintKey[];
+  unsatisfiedPackages?: UnsatisfiedPackage[];
+  explanations?: Map<EngineConstraintKey, EngineConstraintExplanation>;
+  workspaceContexts?: CLIContext[];
 };
 export type CheckCommandContext = CLIContext;
+export type ComputeEnginesOptions = {
+  packageJson: PackageJSONSchema;
+  lockfile: PackageLockJSONSchema;
+  engines?: string[] | undefined;
+  ignore?: string[] | undefined;
+  overrides?: EnginesOverrides | undefined;
+  omit?: OmitType[] | undefined;
+  only?: OnlyType | undefined;
+  rangeStyle?: RangeStyle | undefined;
+};
+export type ComputeEnginesResult = {
+  ranges: Map<EngineConstraintKey, EngineConstraintChange>;
+  rangesSimplified: Map<EngineConstraintKey, string>;
+  explanations: Map<EngineConstraintKey, EngineConstraintExplanation>;
+  conflicts: EngineConstraintConflict[];
+  ignoredPackages: IgnoredPackage[];
+  overriddenPackages: OverriddenPackage[];
+};
+export type CacheableComputeEnginesResult = Omit<ComputeEnginesResult, 'rangesSimplified'>;
+export type CachedComputeEnginesResult = {
+  version: string;
+  ranges: [EngineConstraintKey, { from?: string; to: string }][];
+  explanations: [EngineConstraintKey, EngineConstraintExplanation][];
+  conflicts: EngineConstraintConflict[];
+  ignoredPackages: IgnoredPackage[];
+  overriddenPackages: OverriddenPackage[];
+};
+export type CheckProjectOptions = Pick<
+  ComputeEnginesOptions,
+  'engines' | 'ignore' | 'overrides' | 'omit' | 'only' | 'rangeStyle'
+>;
+export type CheckProjectResult = ComputeEnginesResult & {
+  packageJson: LoadedFileObject<PackageJSONSchema>;
+  lockfile: LoadedFileObject<PackageLockJSONSchema>;
+};
+export type JSONOutputEngine = {
+  from: string;
+  to: string;
+  fromHumanized: string;
+  toHumanized: string;
+  changed: boolean;
+  change?: EngineConstraintChangeType;
+  releases?: NodeRelease[];
+  warnings: string[];
+};
+export type JSONOutputResult = {
+  packageFile: string;
+  lockFile: string;
+  engines: Record<string, JSONOutputEngine>;
+  conflicts?: EngineConstraintConflict[];
+  ignoredPackages?: IgnoredPackage[];
+  overriddenPackages?: OverriddenPackage[];
+  versionPins?: VersionPinCheck[];
+  runtimeVersions?: RuntimeVersionCheck[];
+  skippedRuntimes?: EngineConstraintKey[];
+  unsatisfiedPackages?: UnsatisfiedPackage[];
+  diff?: string;
+  workspaces?: JSONOutputResult[];
+  error?: { name: string; message: string; diagnostics?: SchemaValidationDiagnostic[] };
+};
+export type JSONOutput = { version: 1 } & JSONOutputResult;
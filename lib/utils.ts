@@ -1,9 +1,65 @@
 import fs from 'node:fs/promises';
 import nodePath from 'node:path';
+import { isMap, isNode, isScalar, parse, parseDocument } from 'yaml';
+
+import type { JSONFormat } from './types.js';
 
 export const getJson = async <T>(path: string): Promise<T> => JSON.parse(await fs.readFile(path, 'utf8'));
-export const writeJson = async (path: string, obj: unknown): Promise<void> =>
-  fs.writeFile(path, JSON.stringify(obj, null, 2), 'utf8');
+export const getText = async (path: string): Promise<string> => fs.readFile(path, 'utf8');
+export const getYaml = async <T>(path: string): Promise<T> => parse(await fs.readFile(path, 'utf8'));
+export const defaultJSONFormat: JSONFormat = { indent: '  ', eol: '\n', trailingNewline: false };
+export const detectJSONFormat = (text: string): JSONFormat => ({
+  indent: text.match(/^[{[]\r?\n([ \t]+)\S/)?.[1] || defaultJSONFormat.indent,
+  eol: text.includes('\r\n') ? '\r\n' : defaultJSONFormat.eol,
+  trailingNewline: /\n$/.test(text),
+});
+export const stringifyJson = (obj: unknown, format: JSONFormat = defaultJSONFormat): string =>
+  `${JSON.stringify(obj, null, format.indent).replace(/\n/g, format.eol)}${format.trailingNewline ? format.eol : ''}`;
+/**
+ * Replace the value of a top-level property of a JSON text, or append the property, keeping every other byte untouched.
+ */
+export const replaceJsonProperty = (
+  text: string,
+  key: string,
+  value: unknown,
+  format: JSONFormat = defaultJSONFormat,
+): string | undefined => {
+  const root = parseDocument(text).contents;
+
+  if (!isMap(root)) {
+    return undefined;
+  }
+
+  const json = JSON.stringify(value, null, format.indent).replace(/\n/g, `${format.eol}${format.indent}`);
+  const pair = root.items.find(item => isScalar(item.key) && key === item.key.value);
+
+  if (isNode(pair?.value) && pair?.value.range) {
+    const [start, end] = pair.value.range;
+    return `${text.slice(0, start)}${json}${text.slice(end)}`;
+  }
+
+  const lastValue = root.items[root.items.length - 1]?.value;
+
+  if (!isNode(lastValue) || !lastValue.range) {
+    return undefined;
+  }
+
+  const [, end] = lastValue.range;
+  return `${text.slice(0, end)},${format.eol}${format.indent}${JSON.stringify(key)}: ${json}${text.slice(end)}`;
+};
+export const writeJson = async (path: string, obj: unknown, format: JSONFormat = defaultJSONFormat): Promise<void> =>
+  fs.writeFile(path, stringifyJson(obj, format), 'utf8');
+export const writeText = async (path: string, content: string): Promise<void> => fs.writeFile(path, content, 'utf8');
+export const fileExists = async (path: string): Promise<boolean> =>
+  fs.stat(path).then(
+    stats => stats.isFile(),
+    () => false,
+  );
+export const listDirectories = async (path: string): Promise<string[]> =>
+  fs.readdir(path, { withFileTypes: true }).then(
+    entries => entries.filter(entry => entry.isDirectory() || entry.isSymbolicLink()).map(entry => entry.name),
+    () => [],
+  );
 export const isAbsolutePath = (p: string): boolean => nodePath.isAbsolute(p);
 export const joinPath = (...paths: string[]): string => nodePath.join(...paths);
 export const getRelativePath = (options: { workingDir: string; path?: string }): string => {
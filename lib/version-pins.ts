@@ -0,0 +1,150 @@
+import type { Range } from 'semver';
+import semver from 'semver';
+
+import {
+  EngineConstraintChange,
+  EngineConstraintKey,
+  PackageJSONSchema,
+  VersionPin,
+  VersionPinCheck,
+  VersionPinFilenames,
+  VersionPinStatus,
+} from './types.js';
+import { getText, joinPath } from './utils.js';
+
+const toolVersionsEngines: Record<string, EngineConstraintKey> = { nodejs: 'node' };
+
+const getLines = (content: string): string[] =>
+  content
+    .split(/\r?\n/)
+    .map(line => line.replace(/#.*$/, '').trim())
+    .filter(line => line.length > 0);
+
+export const parseVersionPinFile = (content: string): string | undefined => getLines(content)[0];
+
+export const parseToolVersions = (content: string): { engine: EngineConstraintKey; version: string }[] =>
+  getLines(content).flatMap(line => {
+    const [tool, version] = line.split(/\s+/);
+    return tool && version ? [{ engine: toolVersionsEngines[tool] || tool, version }] : [];
+  });
+
+export const parseSelectedVersionPins = (values: string[]): Record<EngineConstraintKey, string> =>
+  Object.fromEntries(
+    values.map(value => {
+      const separatorIndex = value.lastIndexOf('@');
+      const version = semver.clean(value.slice(separatorIndex + 1));
+
+      if (separatorIndex <= 0 || !version) {
+        throw new Error(`Invalid version pin ${value}, expected <engine>@<version>, e.g. node@18.17.0.`);
+      }
+
+      return [value.slice(0, separatorIndex), version];
+    }),
+  );
+
+/**
+ * Read node, npm & yarn version pins of `.nvmrc`, `.node-version`, `.tool-versions` and the `volta` block of package.json.
+ */
+export const readVersionPins = async ({
+  path,
+  packageJson,
+  packageFile,
+}: {
+  path: string;
+  packageJson: PackageJSONSchema;
+  packageFile: string;
+}): Promise<VersionPin[]> => {
+  const pins: VersionPin[] = [];
+
+  for (const source of VersionPinFilenames) {
+    const file = joinPath(path, source);
+    const content = await getText(file).catch(() => undefined);
+
+    if (undefined === content) {
+      continue;
+    }
+
+    if ('.tool-versions' === source) {
+      pins.push(...parseToolVersions(content).map(pin => ({ file, source, ...pin })));
+      continue;
+    }
+
+    const version = parseVersionPinFile(content);
+
+    if (version) {
+      pins.push({ file, source, engine: 'node', version });
+    }
+  }
+
+  for (const [engine, version] of Object.entries(packageJson.volta || {})) {
+    if ('extends' !== engine && 'string' === typeof version) {
+      pins.push({ file: packageFile, source: 'volta', engine, version });
+    }
+  }
+
+  return pins;
+};
+
+export const getVersionPinStatus = (version: string, range: Range): VersionPinStatus => {
+  const cleanVersion = semver.clean(version);
+
+  if (cleanVersion) {
+    return semver.satisfies(cleanVersion, range) ? 'satisfied' : 'unsatisfied';
+  }
+
+  const pinRange = semver.validRange(version.replace(/^v/, ''));
+
+  if (!pinRange) {
+    return 'unsupported';
+  }
+
+  return semver.subset(pinRange, range) ? 'satisfied' : 'unsatisfied';
+};
+
+/**
+ * Check version pins against computed ranges and propose the selected version or the lowest satisfying one.
+ */
+export const getVersionPinChecks = (
+  pins: VersionPin[],
+  ranges: Map<EngineConstraintKey, EngineConstraintChange>,
+  selectedVersions: Record<EngineConstraintKey, string> = {},
+): VersionPinCheck[] => {
+  for (const [engine, version] of Object.entries(selectedVersions)) {
+    const range = ranges.get(engine)?.to;
+
+    if (range && !semver.satisfies(version, range)) {
+      throw new Error(`Selected ${engine} version ${version} does not satisfy computed range ${range.raw || '*'}.`);
+    }
+  }
+
+  return pins.flatMap(pin => {
+    const range = ranges.get(pin.engine)?.to;
+
+    if (!range) {
+      return [];
+    }
+
+    const status = getVersionPinStatus(pin.version, range);
+    const proposed =
+      selectedVersions[pin.engine] || ('unsatisfied' === status ? semver.minVersion(range)?.version : undefined);
+
+    return [{ ...pin, status, ...(proposed && proposed !== semver.clean(pin.version) && { proposed }) }];
+  });
+};
+
+/**
+ * Replace a pinned version in a version file content, keeping its `v` prefix, comments and line endings.
+ */
+export const replaceVersionPin = (content: string, pin: VersionPin, version: string): string => {
+  const pinnedVersion = pin.version.startsWith('v') ? `v${version}` : version;
+
+  if ('.tool-versions' !== pin.source) {
+    return content.replace(pin.version, pinnedVersion);
+  }
+
+  return content.replace(/^([ \t]*)(\S+)([ \t]+)(\S+)/gm, (line, indent, tool, separator, currentVersion) =>
+    (toolVersionsEngines[tool] || tool) === pin.engine && currentVersion === pin.version
+      ? `${indent}${tool}${separator}${pinnedVersion}`
+      : line,
+  );
+};
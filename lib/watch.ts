@@ -0,0 +1,190 @@
+import chalk from 'chalk';
+import lodash from 'lodash';
+import { FSWatcher, watch, WatchListener } from 'node:fs';
+import { basename, dirname } from 'node:path';
+
+import { getPackageNameFromKey } from './dependency-graph.js';
+import { humanizeRange } from './tasks.js';
+import type { CheckCommandContext, CLIContext, EngineConstraintKey, WatchedEngineChange } from './types.js';
+import { getRelativePath, joinPath } from './utils.js';
+
+export const watchDelay = 300 as const;
+
+/**
+ * Resolve package.json and lock file paths the same way `readPackageFile` & `readPackageLockFile` do.
+ */
+export const getWatchedFiles = ({
+  path,
+  workingDir,
+  packageObject,
+  packageLockObject,
+}: Pick<CheckCommandContext, 'path' | 'workingDir' | 'packageObject' | 'packageLockObject'>): string[] =>
+  [packageObject.filename, packageLockObject.filename].map(filename =>
+    getRelativePath({ path: joinPath(path, filename), workingDir }),
+  );
+
+const getCulpritPackages = (ctx: CheckCommandContext, engine: EngineConstraintKey): string[] => {
+  const packages = ctx.packageLockObject.data?.packages || {};
+
+  return (ctx.explanations?.get(engine)?.culprits || []).flatMap(({ path }) => {
+    const version = packages[path]?.version;
+    const name = packages[path]?.name || getPackageNameFromKey(path);
+    return path ? [version ? `${name}@${version}` : name] : [];
+  });
+};
+
+/**
+ * List engines whose computed range changed between two runs, with the packages newly determining them.
+ */
+export const getWatchedEngineChanges = (
+  previous: CheckCommandContext,
+  current: CheckCommandContext,
+): WatchedEngineChange[] =>
+  lodash.union([...(previous.ranges?.keys() || [])], [...(current.ranges?.keys() || [])]).flatMap(engine => {
+    const from = humanizeRange(previous.ranges?.get(engine)?.to, current.rangeStyle);
+    const to = humanizeRange(current.ranges?.get(engine)?.to, current.rangeStyle);
+
+    if (from === to) {
+      return [];
+    }
+
+    const previousCulprits = getCulpritPackages(previous, engine);
+    const causes = getCulpritPackages(current, engine).filter(culprit => !previousCulprits.includes(culprit));
+
+    return [{ engine, from, to, causes }];
+  });
+
+export const generateWatchChangesMessage = (changes: WatchedEngineChange[]): string => {
+  if (0 === changes.length) {
+    return `No computed engines range constraints changed since last run.`;
+  }
+
+  return `Computed engines range constraints changed since last run:\n${changes
+    .map(
+      ({ engine, from, to, causes }) =>
+        `  ${chalk.bold(engine)}: ${from} → ${chalk.blue(to)}${
+          causes.length > 0 ? chalk.gray(` (caused by ${causes.join(', ')})`) : ''
+        }`,
+    )
+    .join('\n')}`;
+};
+
+/**
+ * Watch the parent directories of files, as package managers replace lock files rather than writing them in place.
+ * Stop watching when the signal is aborted or a watcher fails.
+ */
+export const watchFiles = ({
+  files,
+  onChange,
+  onError,
+  delay = watchDelay,
+  signal,
+  watchDirectory = watch,
+}: {
+  files: string[];
+  onChange: () => void;
+  onError?: (error: Error) => void;
+  delay?: number;
+  signal?: AbortSignal;
+  watchDirectory?: (dir: string, listener: WatchListener<string>) => FSWatcher;
+}): Promise<void> =>
+  new Promise(resolve => {
+    const onChangeDebounced = lodash.debounce(onChange, delay);
+    const watchers = lodash.uniq(files.map(file => dirname(file))).map(dir => {
+      const filenames = files.filter(file => dirname(file) === dir).map(file => basename(file));
+
+      return watchDirectory(dir, (_, filename) => {
+        if (filename && filenames.includes(filename.toString())) {
+          onChangeDebounced();
+        }
+      }).on('error', (error: Error) => {
+        onError?.(error);
+        close();
+      });
+    });
+    const close = (): void => {
+      signal?.removeEventListener('abort', close);
+      onChangeDebounced.cancel();
+      watchers.forEach(watcher => watcher.close());
+      resolve();
+    };
+
+    if (signal?.aborted) {
+      close();
+    } else {
+      signal?.addEventListener('abort', close, { once: true });
+    }
+  });
+
+/**
+ * Run the check, then re-run it on each change of package.json or lock file until the signal is aborted.
+ */
+export const watchProject = async ({
+  context,
+  run,
+  signal,
+  delay = watchDelay,
+  quiet = false,
+  write = (text: string) => process.stdout.write(text),
+  writeError = (text: string) => process.stderr.write(text),
+}: {
+  context: CLIContext;
+  run: (ctx: CLIContext) => Promise<CLIContext>;
+  signal?: AbortSignal;
+  delay?: number;
+  quiet?: boolean;
+  write?: (text: string) => void;
+  writeError?: (text: string) => void;
+}): Promise<CLIContext> => {
+  const initialContext: CLIContext = { ...context };
+  const createContext = (): CLIContext => ({
+    ...initialContext,
+    packageObject: { filename: initialContext.packageObject.filename },
+    packageLockObject: { filename: initialContext.packageLockObject.filename },
+  });
+  let error: unknown = undefined;
+  const runContext = async (ctx: CLIContext): Promise<CLIContext> => {
+    error = undefined;
+    return run(ctx).catch((runError: unknown) => {
+      error = runError;
+      return ctx;
+    });
+  };
+
+  let previous = await runContext(context);
+  let queue: Promise<void> = Promise.resolve();
+  const files = getWatchedFiles(previous);
+
+  if (!quiet) {
+    write(`\nWatching ${files.join(', ')} for changes...\n`);
+  }
+
+  await watchFiles({
+    files,
+    delay,
+    ...(signal && { signal }),
+    onError: watchError => writeError(`${chalk.red('✖')} Stopped watching: ${watchError.message}\n`),
+    onChange: () => {
+      queue = queue.then(async () => {
+        const current = await runContext(createContext());
+
+        if (!current.ranges) {
+          return;
+        }
+
+        if (!quiet && previous.ranges) {
+          write(`\n${generateWatchChangesMessage(getWatchedEngineChanges(previous, current))}\n`);
+        }
+
+        previous = current;
+      });
+    },
+  });
+  await queue;
+
+  if (error) {
+    throw error;
+  }
+
+  return previous;
+};
@@ -0,0 +1,89 @@
+import minimatch from 'minimatch';
+
+import { nodeModulesDirname } from './manifests.js';
+import type { LockPackage, PackageJSONSchema } from './types.js';
+
+export const getWorkspacesGlobs = ({ workspaces }: PackageJSONSchema): string[] => {
+  if (Array.isArray(workspaces)) {
+    return workspaces;
+  }
+
+  return workspaces?.packages || [];
+};
+
+export const getWorkspacePaths = (packages: Record<string, LockPackage>, globs: string[]): string[] => {
+  const paths = new Set<string>();
+
+  for (const [path, pkg] of Object.entries(packages)) {
+    const workspacePath = pkg.link && pkg.resolved ? pkg.resolved : path;
+
+    if (
+      '' !== workspacePath &&
+      !workspacePath.split('/').includes(nodeModulesDirname) &&
+      globs.some(glob => minimatch(workspacePath, glob.replace(/^\.\//, '').replace(/\/$/, '')))
+    ) {
+      paths.add(workspacePath);
+    }
+  }
+
+  return [...paths].sort();
+};
+
+export const resolveDependencyPath = (
+  packages: Record<string, LockPackage>,
+  from: string,
+  name: string,
+): string | undefined => {
+  let dir = from;
+
+  while (true) {
+    const candidate = `${dir ? `${dir}/` : ''}${nodeModulesDirname}/${name}`;
+
+    if (candidate in packages) {
+      const pkg = packages[candidate];
+      return pkg.link && pkg.resolved !== undefined ? pkg.resolved : candidate;
+    }
+
+    if ('' === dir) {
+      return undefined;
+    }
+
+    dir = dir.includes('/') ? dir.slice(0, dir.lastIndexOf('/')) : '';
+  }
+};
+
+export const getWorkspacePackages = (
+  packages: Record<string, LockPackage>,
+  workspacePath: string,
+): Record<string, LockPackage> => {
+  const closure: Record<string, LockPackage> = {};
+  const queue: string[] = [workspacePath];
+
+  while (queue.length > 0) {
+    const path = queue.shift() as string;
+
+    if (path in closure || !(path in packages)) {
+      continue;
+    }
+
+    const pkg = packages[path];
+    closure[path] = pkg;
+
+    const dependencies = {
+      ...pkg.dependencies,
+      ...pkg.optionalDependencies,
+      ...pkg.peerDependencies,
+      ...(path === workspacePath ? pkg.devDependencies : {}),
+    };
+
+    for (const name of Object.keys(dependencies)) {
+      const dependencyPath = resolveDependencyPath(packages, path, name);
+
+      if (dependencyPath !== undefined) {
+        queue.push(dependencyPath);
+      }
+    }
+  }
+
+  return closure;
+};
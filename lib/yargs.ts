@@ -2,10 +2,43 @@
 import yargs from 'yargs';
 import { hideBin } from 'yargs/helpers';
 
+import { parseDate } from './release-schedule.js';
+import {
+  OmitType,
+  OmitTypes,
+  OnlyType,
+  OnlyTypes,
+  OutputFormat,
+  OutputFormats,
+  RangeStyle,
+  RangeStyles,
+  UpdatePolicies,
+  UpdatePolicy,
+} from './types.js';
+import { parseSelectedVersionPins } from './version-pins.js';
+
 export type CLIArgs = {
   [p: string]: unknown;
   path?: string;
   update?: boolean;
+  updatePolicy?: UpdatePolicy;
+  rangeStyle?: RangeStyle;
+  dryRun?: boolean;
+  patchFile?: string;
+  sort?: boolean;
+  check?: boolean;
+  ignore?: string[];
+  omit?: OmitType[];
+  only?: OnlyType;
+  pins?: boolean;
+  pin?: Record<string, string>;
+  dropEol?: boolean;
+  date?: Date;
+  cache?: boolean;
+  workspaces?: boolean;
+  watch?: boolean;
+  explain?: boolean;
+  format?: OutputFormat;
   quiet?: boolean;
   verbose?: boolean;
   debug?: boolean;
@@ -18,11 +51,27 @@ const argv = yargs(hideBin(process.argv));
 export const cli: Promise<CLIArgs> = argv
   .scriptName('nce')
   .usage('Usage: $0 [options]')
+  .command('$0', 'Check engines range constraints of the project.')
+  .command('explain [engines..]', 'Explain which packages determined each computed engines range constraint.')
+  .command('doctor', 'Check current node, npm and yarn versions against declared and computed engines.')
+  .command('refresh-schedule', 'Download the latest Node.js release schedule used offline to annotate node ranges.')
   .example('$0', 'Check package-lock.json file in current working directory.')
   .example(
     '$0 -p examples -u',
     'Check package-lock.json file and update engines in package.json in relative examples directory.',
   )
+  .example('$0 explain node', 'Explain which packages determined the computed node engine range constraint.')
+  .example('$0 doctor', 'List packages whose engines are not satisfied by the current node, npm or yarn version.')
+  .example('$0 -f json', 'Print computed engines range constraints as a JSON document.')
+  .example('$0 --check', 'Fail when engines in package.json are out of date, e.g. in CI.')
+  .example('$0 --omit dev,optional', 'Check production packages only.')
+  .example("$0 --ignore '@types/*'", 'Ignore engines declared by @types packages.')
+  .example('$0 --dry-run', 'Print a unified diff of engines updates in package.json.')
+  .example('$0 -u --update-policy tighten-only', 'Update engines in package.json only when ranges are tightened.')
+  .example('$0 --pins -u --pin node@18.17.0', 'Update .nvmrc, .node-version, .tool-versions and volta node pins.')
+  .example('$0 --drop-eol -u', 'Update the node engine range dropping end-of-life Node.js majors.')
+  .example('$0 --watch', 'Re-check engines and print changed ranges on lock file changes.')
+  .example('$0 -w', 'Check package-lock.json file for every workspace defined in package.json.')
   .strict()
   .options({
     path: {
@@ -51,16 +100,112 @@ export const cli: Promise<CLIArgs> = argv
     engines: {
       array: true,
       alias: 'e',
-      description: 'Select engines to check. Default will check all engines defined.',
+      description: 'Select engines to check. Default will check node, npm, yarn and every engine found in lock file.',
     },
     update: {
       boolean: true,
       alias: 'u',
-      default: false,
+      defaultDescription: 'false',
       description: 'Update engines in package.json file.',
     },
+    'update-policy': {
+      choices: UpdatePolicies,
+      defaultDescription: '"exact"',
+      description: 'Update exactly to computed ranges, only tighten or also loosen declared ranges.',
+    },
+    'range-style': {
+      choices: RangeStyles,
+      defaultDescription: '"preserve"',
+      description: 'Print computed ranges as caret, tilde or >= comparators, or preserve their computed form.',
+    },
+    'dry-run': {
+      boolean: true,
+      default: false,
+      description: 'Print a unified diff of package.json instead of updating it.',
+    },
+    'patch-file': {
+      string: true,
+      description: 'Write the unified diff of package.json to a patch file. Implies --dry-run.',
+    },
+    sort: {
+      boolean: true,
+      default: false,
+      description: 'Sort package.json keys when updating engines.',
+    },
+    ignore: {
+      array: true,
+      string: true,
+      description: 'Ignore packages by name or glob pattern.',
+    },
+    omit: {
+      array: true,
+      choices: OmitTypes,
+      coerce: (values: string[]) => values.flatMap(value => value.split(',')),
+      description: 'Omit dev, optional or peer packages of the lock file.',
+    },
+    only: {
+      choices: OnlyTypes,
+      description: 'Only check dev packages of the lock file, e.g. for devEngines.',
+    },
+    pins: {
+      boolean: true,
+      defaultDescription: 'false',
+      description: 'Check .nvmrc, .node-version, .tool-versions and volta version pins against computed ranges.',
+    },
+    pin: {
+      array: true,
+      string: true,
+      description: 'Version to pin with --pins -u instead of the lowest satisfying one, e.g. node@18.17.0.',
+    },
+    'drop-eol': {
+      boolean: true,
+      defaultDescription: 'false',
+      description: 'Raise the computed node range minimum to drop end-of-life Node.js majors.',
+    },
+    cache: {
+      boolean: true,
+      defaultDescription: 'true',
+      description: 'Cache computed ranges in node_modules/.cache/nce. Disable with --no-cache.',
+    },
+    date: {
+      string: true,
+      defaultDescription: 'today',
+      description: 'Date used to compute the LTS or end-of-life status of Node.js majors, e.g. 2024-01-01.',
+    },
+    check: {
+      boolean: true,
+      alias: 'fail-on-change',
+      default: false,
+      description: 'Exit with code 3 when engines in package.json are out of date.',
+    },
+    format: {
+      alias: 'f',
+      choices: OutputFormats,
+      defaultDescription: '"table"',
+      description: 'Output format. JSON documents follow schemas/schema-output-v1.json.',
+    },
+    explain: {
+      boolean: true,
+      default: false,
+      description: 'Explain which packages determined each computed engines range constraint.',
+    },
+    workspaces: {
+      boolean: true,
+      alias: 'w',
+      default: false,
+      description: 'Check engines of every workspace defined in package.json.',
+    },
+    watch: {
+      boolean: true,
+      default: false,
+      description: 'Re-run the check when package.json or the lock file changes.',
+    },
   })
+  .coerce('pin', parseSelectedVersionPins)
+  .coerce('date', parseDate)
   .help('help')
   .version()
   .wrap(argv.terminalWidth())
-  .epilog('© 2022 Samuel MARLHENS').argv as Promise<CLIArgs>;
+  .epilog(
+    'Options can also be set in .ncerc.json, .ncerc.yaml, nce.config.js or the "nce" key of package.json.\n\n© 2022 Samuel MARLHENS',
+  ).argv as Promise<CLIArgs>;
@@ -0,0 +1,36 @@
+import { parse } from 'yaml';
+
+import type { LockPackageEngines } from './types.js';
+import { getPackageNameFromDescriptor, YarnLockEntry } from './yarn-lock.js';
+
+export type YarnBerryLockEntry = {
+  version?: string;
+  resolution?: string;
+  engines?: LockPackageEngines;
+};
+export type YarnBerryLockSchema = {
+  __metadata?: { version?: string | number };
+} & Record<string, YarnBerryLockEntry>;
+
+export const isYarnBerryLock = (content: string): boolean => /^__metadata:\s*$/m.test(content);
+
+export const parseYarnBerryLock = (content: string): YarnLockEntry[] => {
+  const { __metadata: metadata, ...lock } = (parse(content) || {}) as YarnBerryLockSchema;
+
+  if (!metadata || undefined === metadata.version) {
+    throw new Error(`yarn.lock does not contain __metadata.version property.`);
+  }
+
+  const entries = new Map<string, YarnLockEntry>();
+
+  for (const { version, resolution, engines } of Object.values(lock)) {
+    if (!version || !resolution || resolution.includes('@workspace:')) {
+      continue;
+    }
+
+    const name = getPackageNameFromDescriptor(resolution);
+    entries.set(`${name}@${version}`, engines ? { name, version, engines } : { name, version });
+  }
+
+  return [...entries.values()];
+};
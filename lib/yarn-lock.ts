@@ -0,0 +1,76 @@
+import chalk from 'chalk';
+import type { Debugger } from 'debug';
+
+import { indexManifestsByVersion, InstalledManifest } from './manifests.js';
+import type { LockPackage, LockPackageEngines } from './types.js';
+
+export type YarnLockEntry = { name: string; version: string; engines?: LockPackageEngines };
+
+export const getPackageNameFromDescriptor = (descriptor: string): string => {
+  const versionSeparatorIndex = descriptor.indexOf('@', 1);
+  return -1 === versionSeparatorIndex ? descriptor : descriptor.slice(0, versionSeparatorIndex);
+};
+
+const unquote = (value: string): string => value.trim().replace(/^"(.*)"$/, '$1');
+
+export const parseYarnLock = (content: string): YarnLockEntry[] => {
+  const entries = new Map<string, YarnLockEntry>();
+  let name: string | undefined = undefined;
+
+  for (const line of content.split(/\r?\n/)) {
+    if (/^(<{7}|={7}|>{7})/.test(line)) {
+      throw new Error(`yarn.lock contains merge conflicts.`);
+    }
+
+    if (0 === line.length || line.startsWith('#')) {
+      continue;
+    }
+
+    if (!/^\s/.test(line) && line.endsWith(':')) {
+      name = getPackageNameFromDescriptor(unquote(line.slice(0, -1).split(',')[0]));
+      continue;
+    }
+
+    const versionMatch = /^ {2}version:? (.+)$/.exec(line);
+    if (name && versionMatch) {
+      const version = unquote(versionMatch[1]);
+      entries.set(`${name}@${version}`, { name, version });
+      name = undefined;
+    }
+  }
+
+  return [...entries.values()];
+};
+
+export const yarnLockToPackages = ({
+  entries,
+  manifests,
+  debug,
+}: {
+  entries: YarnLockEntry[];
+  manifests: Map<string, InstalledManifest>;
+  debug: Debugger;
+}): Record<string, LockPackage> => {
+  const manifestsByVersion = indexManifestsByVersion(manifests);
+  const packages: Record<string, LockPackage> = {};
+
+  for (const { name, version, engines } of entries) {
+    const installed = manifestsByVersion.get(`${name}@${version}`);
+
+    if (engines) {
+      packages[installed ? installed[0] : `${name}@${version}`] = { engines };
+      continue;
+    }
+
+    if (!installed) {
+      debug(`${chalk.white('Package')} ${chalk.gray(`${name}@${version}`)} ${chalk.white('is not installed')}`);
+      packages[`${name}@${version}`] = { engines: {} };
+      continue;
+    }
+
+    const [path, manifest] = installed;
+    packages[path] = { engines: manifest.engines || {} };
+  }
+
+  return packages;
+};
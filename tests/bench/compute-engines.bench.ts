@@ -0,0 +1,23 @@
+import { bench, describe } from 'vitest';
+
+import { computeEngines } from '../../lib/tasks.js';
+import { generateSyntheticLockfile } from './synthetic-lockfile.js';
+
+/**
+ * Target mean runtime of `computeEngines` per synthetic lockfile size, on a single CPU core.
+ */
+const targetRuntimes = { 10_000: 200, 50_000: 500 } as const;
+
+describe('computeEngines', () => {
+  for (const [size, target] of Object.entries(targetRuntimes)) {
+    const { packageJson, lockfile } = generateSyntheticLockfile(Number(size));
+
+    bench(
+      `${Number(size) / 1_000}k packages, target < ${target}ms`,
+      () => {
+        computeEngines({ packageJson, lockfile });
+      },
+      { iterations: 10, time: 0 },
+    );
+  }
+});
@@ -0,0 +1,74 @@
+import type { LockPackageEngines, PackageJSONSchema, PackageLockJSONSchema } from '../../lib/types.js';
+
+const nodeRanges = [
+  '>=6',
+  '>= 8',
+  '>=10.0.0',
+  '>=12',
+  '>=12.20.0',
+  '^12.20.0 || ^14.13.1 || >=16.0.0',
+  '^12.22.0 || ^14.17.0 || >=16.0.0',
+  '^12.17.0 || >=14.0.0',
+  '*',
+  'latest',
+] as const;
+const npmRanges = ['>=6', '>=7.0.0', '>= 8', '>=8.1.0'] as const;
+const yarnRanges = ['>=1.22.0', '^1.22.0 || >=3.0.0'] as const;
+
+/**
+ * Deterministic linear congruential generator, so that benchmarks compare the same lockfile across runs.
+ */
+const createRandom = (seed: number): (() => number) => {
+  let state = seed;
+  return () => {
+    state = (state * 1664525 + 1013904223) % 4294967296;
+    return state / 4294967296;
+  };
+};
+
+const pick = <T>(values: ReadonlyArray<T>, random: () => number): T =>
+  values[Math.floor(random() * values.length)] as T;
+
+const generateEngines = (index: number, random: () => number): LockPackageEngines | undefined => {
+  const chance = random();
+
+  if (chance < 0.4) {
+    return undefined;
+  }
+
+  const engines: Record<string, string> = {
+    node:
+      chance < 0.5
+        ? `^12.${index % 23}.${index % 7} || ^14.${index % 19}.${index % 5} || >=16.${index % 13}.0`
+        : pick(nodeRanges, random),
+  };
+
+  if (random() < 0.1) {
+    engines['npm'] = pick(npmRanges, random);
+  }
+
+  if (random() < 0.02) {
+    engines['yarn'] = pick(yarnRanges, random);
+  }
+
+  return engines;
+};
+
+export const generateSyntheticLockfile = (
+  size: number,
+  seed: number = 42,
+): { packageJson: PackageJSONSchema; lockfile: PackageLockJSONSchema } => {
+  const random = createRandom(seed);
+  const packages: PackageLockJSONSchema['packages'] = { '': { name: 'synthetic', engines: {} } };
+
+  for (let index = 0; index < size; index++) {
+    const engines = generateEngines(index, random);
+    packages[`node_modules/package-${index}`] = {
+      version: `${index % 7}.${index % 13}.${index % 3}`,
+      ...(engines && { engines }),
+      ...(random() < 0.3 && { dev: true }),
+    } as PackageLockJSONSchema['packages'][string];
+  }
+
+  return { packageJson: { name: 'synthetic', engines: {} }, lockfile: { packages } };
+};
@@ -10,7 +10,7 @@ describe('nce', () => {
       cleanup: true,
     };
     const { stdout } = await execaCommand(
-      `node --experimental-specifier-resolution=node --loader ts-node/esm ../bin/nce.ts`,
+      `node --experimental-specifier-resolution=node --loader ts-node/esm ../bin/nce.ts --no-cache --date 2026-10-19`,
       execaOptions,
     );
     expect(stdout).toEqual(
@@ -25,7 +25,9 @@ describe('nce', () => {
         '[STARTED] Output computed engines range constraints...\n' +
         '[TITLE] Computed engines range constraints:\n' +
         '[TITLE] \n' +
-        '[TITLE]  node  *  →  ^14.17.0 || ^16.10.0 || >=17.0.0 \n' +
+        '[TITLE]  node  *  →  ^14.17.0 || ^16.10.0 || >=17.0.0  tightened \n' +
+        '[TITLE] \n' +
+        '[TITLE] Node.js majors covered by ^14.17.0 || ^16.10.0 || >=17.0.0: 14-21, 23, 25 end-of-life; 22 maintenance LTS; 24 active LTS; 26 current.\n' +
         '[TITLE] \n' +
         `[TITLE] Run nce -u to upgrade package.json.\n` +
         '[SUCCESS] Output computed engines range constraints...\n' +
@@ -33,7 +35,9 @@ describe('nce', () => {
         '[SKIPPED] Update is disabled by default.\n' +
         '[SUCCESS] Computed engines range constraints:\n' +
         '[SUCCESS] \n' +
-        '[SUCCESS]  node  *  →  ^14.17.0 || ^16.10.0 || >=17.0.0 \n' +
+        '[SUCCESS]  node  *  →  ^14.17.0 || ^16.10.0 || >=17.0.0  tightened \n' +
+        '[SUCCESS] \n' +
+        '[SUCCESS] Node.js majors covered by ^14.17.0 || ^16.10.0 || >=17.0.0: 14-21, 23, 25 end-of-life; 22 maintenance LTS; 24 active LTS; 26 current.\n' +
         '[SUCCESS] \n' +
         `[SUCCESS] Run nce -u to upgrade package.json.`,
     );
@@ -42,7 +46,7 @@ describe('nce', () => {
   it('should check engines from examples lock file using path option', async () => {
     const execaOptions: Options = { cwd: resolve(__dirname, '..', '..'), stdio: 'pipe', cleanup: true };
     const { stdout } = await execaCommand(
-      `node --experimental-specifier-resolution=node --loader ts-node/esm bin/nce.ts -p examples`,
+      `node --experimental-specifier-resolution=node --loader ts-node/esm bin/nce.ts -p examples --no-cache --date 2026-10-19`,
       execaOptions,
     );
     expect(stdout).toEqual(
@@ -57,7 +61,9 @@ describe('nce', () => {
         '[STARTED] Output computed engines range constraints...\n' +
         '[TITLE] Computed engines range constraints:\n' +
         '[TITLE] \n' +
-        '[TITLE]  node  *  →  ^14.17.0 || ^16.10.0 || >=17.0.0 \n' +
+        '[TITLE]  node  *  →  ^14.17.0 || ^16.10.0 || >=17.0.0  tightened \n' +
+        '[TITLE] \n' +
+        '[TITLE] Node.js majors covered by ^14.17.0 || ^16.10.0 || >=17.0.0: 14-21, 23, 25 end-of-life; 22 maintenance LTS; 24 active LTS; 26 current.\n' +
         '[TITLE] \n' +
         `[TITLE] Run nce -p examples -u to upgrade package.json.\n` +
         '[SUCCESS] Output computed engines range constraints...\n' +
@@ -65,7 +71,9 @@ describe('nce', () => {
         '[SKIPPED] Update is disabled by default.\n' +
         '[SUCCESS] Computed engines range constraints:\n' +
         '[SUCCESS] \n' +
-        '[SUCCESS]  node  *  →  ^14.17.0 || ^16.10.0 || >=17.0.0 \n' +
+        '[SUCCESS]  node  *  →  ^14.17.0 || ^16.10.0 || >=17.0.0  tightened \n' +
+        '[SUCCESS] \n' +
+        '[SUCCESS] Node.js majors covered by ^14.17.0 || ^16.10.0 || >=17.0.0: 14-21, 23, 25 end-of-life; 22 maintenance LTS; 24 active LTS; 26 current.\n' +
         '[SUCCESS] \n' +
         `[SUCCESS] Run nce -p examples -u to upgrade package.json.`,
     );
@@ -0,0 +1,23 @@
+import { join } from 'node:path';
+import { describe, expect, it } from 'vitest';
+
+import { checkProject } from '../../lib/api.js';
+import { MissingFileError } from '../../lib/errors.js';
+
+describe('api', () => {
+  describe('checkProject', () => {
+    it('should compute engines of project directory', async () => {
+      const result = await checkProject('examples', { engines: ['node'] });
+
+      expect(result.packageJson.relativePath).toEqual(join('examples', 'package.json'));
+      expect(result.lockfile.relativePath).toEqual(join('examples', 'package-lock.json'));
+      expect([...result.ranges.keys()]).toEqual(['node']);
+      expect(result.rangesSimplified).toEqual(new Map([['node', '^14.17.0 || ^16.10.0 || >=17.0.0']]));
+      expect(result.conflicts).toEqual([]);
+    });
+
+    it('should throw error if project directory does not contain package.json', async () => {
+      await expect(checkProject('foo')).rejects.toBeInstanceOf(MissingFileError);
+    });
+  });
+});
@@ -0,0 +1,157 @@
+import fs from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { Range } from 'semver';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+
+import {
+  cacheDirectory,
+  deserializeComputeEnginesResult,
+  getCacheFile,
+  getCacheKey,
+  getNceVersion,
+  hashFile,
+  hasNodeModules,
+  pruneCachedResults,
+  readCachedResult,
+  serializeComputeEnginesResult,
+  writeCachedResult,
+} from '../../lib/cache.js';
+import type { CacheableComputeEnginesResult } from '../../lib/types.js';
+import { getJson } from '../../lib/utils.js';
+
+const options: Parameters<typeof getCacheKey>[0] = {
+  version: '1.0.0',
+  lockfileHash: 'abc',
+  packageFilename: 'package.json',
+  packageJson: { engines: { node: '>=14.0.0' } },
+  engines: ['node'],
+  ignore: [],
+  overrides: {},
+  omit: [],
+  only: undefined,
+};
+
+const result: CacheableComputeEnginesResult = {
+  ranges: new Map([
+    ['node', { from: new Range('>=14.0.0'), to: new Range('>=16.0.0') }],
+    ['npm', { from: undefined, to: new Range('*') }],
+  ]),
+  explanations: new Map([
+    [
+      'node',
+      { culprits: [{ path: 'node_modules/a', range: '>=16.0.0', result: '>=16.0.0' }], ignored: [], invalid: [] },
+    ],
+  ]),
+  conflicts: [],
+  ignoredPackages: [],
+  overriddenPackages: [],
+};
+
+describe('cache', () => {
+  describe('getCacheKey', () => {
+    it('should be stable for same inputs', () => {
+      expect(getCacheKey(options)).toBe(getCacheKey({ ...options }));
+    });
+
+    it.each<Partial<typeof options>>([
+      { version: '1.0.1' },
+      { packageJson: { engines: { node: '>=16.0.0' } } },
+      { lockfileHash: 'def' },
+      { packageFilename: 'packages/a/package.json' },
+      { engines: ['node', 'npm'] },
+      { ignore: ['a'] },
+      { omit: ['dev'] },
+    ])('should change when %o changes', changes => {
+      expect(getCacheKey({ ...options, ...changes })).not.toBe(getCacheKey(options));
+    });
+
+    it('should ignore package.json fields other than engines', () => {
+      expect(getCacheKey({ ...options, packageJson: { ...options.packageJson, name: 'b' } })).toBe(
+        getCacheKey(options),
+      );
+    });
+  });
+
+  it('should prefix cache key with lock file hash', () => {
+    expect(getCacheKey({ ...options, lockfileHash: '0123456789abcdef0123' })).toMatch(
+      /^0123456789abcdef-[0-9a-f]{64}$/,
+    );
+  });
+
+  it('should get cache file in node_modules/.cache/nce', () => {
+    expect(getCacheFile('project', 'abc')).toBe(join('project', cacheDirectory, 'abc.json'));
+  });
+
+  it('should get nce version from package.json', async () => {
+    expect(await getNceVersion()).toBe((await getJson<{ version: string }>('package.json')).version);
+  });
+
+  it('should round trip computed engines result', () => {
+    const deserialized = deserializeComputeEnginesResult(
+      JSON.parse(JSON.stringify(serializeComputeEnginesResult(result, '1.0.0'))),
+    );
+
+    expect(deserialized.ranges.get('node')?.from?.raw).toBe('>=14.0.0');
+    expect(deserialized.ranges.get('node')?.to.raw).toBe('>=16.0.0');
+    expect(deserialized.ranges.get('npm')?.from).toBeUndefined();
+    expect(deserialized.ranges.get('npm')?.to.raw).toBe('*');
+    expect(deserialized.explanations).toEqual(result.explanations);
+  });
+
+  describe('with files', () => {
+    let dir: string;
+
+    beforeEach(async () => {
+      dir = await fs.mkdtemp(join(tmpdir(), 'nce-'));
+    });
+
+    afterEach(async () => {
+      await fs.rm(dir, { recursive: true, force: true });
+    });
+
+    it('should hash raw file content', async () => {
+      await fs.writeFile(join(dir, 'package-lock.json'), '{}', 'utf8');
+      const hash = await hashFile(join(dir, 'package-lock.json'));
+
+      await fs.writeFile(join(dir, 'package-lock.json'), '{ }', 'utf8');
+      expect(await hashFile(join(dir, 'package-lock.json'))).not.toBe(hash);
+      await fs.writeFile(join(dir, 'package-lock.json'), '{}', 'utf8');
+      expect(await hashFile(join(dir, 'package-lock.json'))).toBe(hash);
+    });
+
+    it('should detect node_modules folder', async () => {
+      expect(await hasNodeModules(dir)).toBe(false);
+      await fs.mkdir(join(dir, 'node_modules'));
+      expect(await hasNodeModules(dir)).toBe(true);
+    });
+
+    it('should read written result', async () => {
+      const file = getCacheFile(dir, 'key');
+      await writeCachedResult(file, '1.0.0', result);
+
+      expect((await readCachedResult(file, '1.0.0'))?.ranges.get('node')?.to.raw).toBe('>=16.0.0');
+    });
+
+    it('should return undefined when nce version changed', async () => {
+      const file = getCacheFile(dir, 'key');
+      await writeCachedResult(file, '1.0.0', result);
+
+      expect(await readCachedResult(file, '2.0.0')).toBeUndefined();
+    });
+
+    it('should prune cached results of other lock files', async () => {
+      const file = getCacheFile(dir, 'abc-key');
+      await writeCachedResult(getCacheFile(dir, 'abc-other'), '1.0.0', result);
+      await writeCachedResult(getCacheFile(dir, 'def-key'), '1.0.0', result);
+      await writeCachedResult(file, '1.0.0', result);
+
+      expect(await pruneCachedResults(file)).toEqual([getCacheFile(dir, 'def-key')]);
+      expect((await fs.readdir(join(dir, cacheDirectory))).sort()).toEqual(['abc-key.json', 'abc-other.json']);
+    });
+
+    it('should return undefined when cache file is missing', async () => {
+      expect(await readCachedResult(getCacheFile(dir, 'missing'), '1.0.0')).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,85 @@
+import type { Debugger } from 'debug';
+import fs from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { findConfigFile, loadConfig } from '../../lib/config.js';
+import { SchemaValidationError } from '../../lib/errors.js';
+
+describe('config', () => {
+  const workingDir = process.cwd();
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(join(tmpdir(), 'nce-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('should return empty config if no configuration file found', async () => {
+    expect(await loadConfig({ path: dir, workingDir, debug: vi.fn() as unknown as Debugger })).toEqual({});
+  });
+
+  it('should load json configuration file found in parent directory', async () => {
+    await fs.writeFile(join(dir, '.ncerc.json'), JSON.stringify({ engines: ['node', 'npm'], format: 'json' }), 'utf8');
+    await fs.mkdir(join(dir, 'packages', 'a'), { recursive: true });
+
+    expect(
+      await loadConfig({ path: join(dir, 'packages', 'a'), workingDir, debug: vi.fn() as unknown as Debugger }),
+    ).toEqual({ engines: ['node', 'npm'], format: 'json' });
+  });
+
+  it('should load yaml configuration file', async () => {
+    await fs.writeFile(join(dir, '.ncerc.yaml'), 'ignore:\n  - "@types/*"\nlockfile: yarn.lock\n', 'utf8');
+
+    expect(await loadConfig({ path: dir, workingDir, debug: vi.fn() as unknown as Debugger })).toEqual({
+      ignore: ['@types/*'],
+      lockfile: 'yarn.lock',
+    });
+  });
+
+  it('should load javascript configuration file', async () => {
+    await fs.writeFile(join(dir, 'nce.config.js'), 'export default { update: true };\n', 'utf8');
+    await fs.writeFile(join(dir, 'package.json'), JSON.stringify({ type: 'module' }), 'utf8');
+
+    expect(await loadConfig({ path: dir, workingDir, debug: vi.fn() as unknown as Debugger })).toEqual({
+      update: true,
+    });
+  });
+
+  it('should load configuration from package.json nce key', async () => {
+    await fs.writeFile(join(dir, 'package.json'), JSON.stringify({ name: 'foo', nce: { engines: ['node'] } }), 'utf8');
+
+    const configFile = await findConfigFile({ path: dir, workingDir });
+    expect(configFile?.filename).toEqual('package.json');
+    expect(configFile?.data).toEqual({ engines: ['node'] });
+  });
+
+  it('should prefer closest configuration file', async () => {
+    await fs.writeFile(join(dir, '.ncerc.json'), JSON.stringify({ engines: ['npm'] }), 'utf8');
+    await fs.writeFile(join(dir, 'package.json'), JSON.stringify({ nce: { engines: ['node'] } }), 'utf8');
+
+    expect(await loadConfig({ path: dir, workingDir, debug: vi.fn() as unknown as Debugger })).toEqual({
+      engines: ['npm'],
+    });
+  });
+
+  it('should throw schema validation error if configuration is invalid', async () => {
+    await fs.writeFile(join(dir, '.ncerc.json'), JSON.stringify({ format: 'xml', foo: true }), 'utf8');
+
+    await expect(loadConfig({ path: dir, workingDir, debug: vi.fn() as unknown as Debugger })).rejects.toBeInstanceOf(
+      SchemaValidationError,
+    );
+  });
+
+  it('should locate schema validation errors of nce key of package.json', async () => {
+    await fs.writeFile(join(dir, 'package.json'), JSON.stringify({ nce: { format: 'xml' } }, null, 2), 'utf8');
+
+    await expect(loadConfig({ path: dir, workingDir, debug: vi.fn() as unknown as Debugger })).rejects.toMatchObject({
+      diagnostics: [{ instancePath: '/nce/format', line: 3, column: 15 }],
+    });
+  });
+});
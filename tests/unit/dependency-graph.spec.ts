@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+
+import { getDependencyChains, getPackageNameFromKey, getPackageNameFromPath } from '../../lib/dependency-graph.js';
+
+describe('dependency-graph', () => {
+  it('should return package name from lock file path', () => {
+    expect(getPackageNameFromPath('node_modules/foo')).toEqual('foo');
+    expect(getPackageNameFromPath('node_modules/foo/node_modules/@scope/bar')).toEqual('@scope/bar');
+    expect(getPackageNameFromPath('foo@1.0.0')).toEqual('foo@1.0.0');
+  });
+
+  it('should return package name from lock file key', () => {
+    expect(getPackageNameFromKey('node_modules/foo/node_modules/@scope/bar')).toEqual('@scope/bar');
+    expect(getPackageNameFromKey('foo@1.0.0')).toEqual('foo');
+    expect(getPackageNameFromKey('@scope/bar@2.0.0')).toEqual('@scope/bar');
+  });
+
+  it('should return shortest dependency chains from root', () => {
+    expect(
+      getDependencyChains({
+        '': { engines: {}, dependencies: { foo: '^1.0.0' }, devDependencies: { baz: '^1.0.0' } },
+        'node_modules/foo': { engines: {}, dependencies: { bar: '^1.0.0' } },
+        'node_modules/foo/node_modules/bar': { engines: {}, dependencies: { baz: '^1.0.0' } },
+        'node_modules/baz': { engines: {} },
+        'node_modules/unused': { engines: {} },
+      }),
+    ).toEqual(
+      new Map([
+        ['', ['']],
+        ['node_modules/foo', ['', 'node_modules/foo']],
+        ['node_modules/baz', ['', 'node_modules/baz']],
+        ['node_modules/foo/node_modules/bar', ['', 'node_modules/foo', 'node_modules/foo/node_modules/bar']],
+      ]),
+    );
+  });
+});
@@ -0,0 +1,54 @@
+import { Range } from 'semver';
+import { describe, expect, it } from 'vitest';
+
+import {
+  EnginesConflictError,
+  ExitCodes,
+  getExitCode,
+  MissingFileError,
+  OutdatedEnginesError,
+  RangeConflictError,
+  SchemaValidationError,
+  UnsatisfiedRuntimeError,
+} from '../../lib/errors.js';
+
+describe('errors', () => {
+  it('should create range conflict error', () => {
+    const error = new RangeConflictError(new Range('>=18.0.0'), new Range('^14.17.0'));
+    expect(error.message).toEqual('Range >=18.0.0 does not intersect with ^14.17.0.');
+    expect(error.name).toEqual('RangeConflictError');
+  });
+
+  it('should return range conflict exit code', () => {
+    expect(getExitCode(new EnginesConflictError('Oops', []))).toEqual(ExitCodes.rangeConflict);
+  });
+
+  it('should return outdated engines exit code', () => {
+    const error = new OutdatedEnginesError(['package.json', 'packages/a/package.json']);
+    expect(error.message).toEqual(
+      'Engines range constraints are out of date in package.json, packages/a/package.json.',
+    );
+    expect(getExitCode(error)).toEqual(ExitCodes.outdatedEngines);
+  });
+
+  it('should return schema validation exit code', () => {
+    expect(getExitCode(new SchemaValidationError('Oops', 'package.json'))).toEqual(ExitCodes.schemaValidation);
+  });
+
+  it('should return missing file exit code', () => {
+    const error = new MissingFileError('package.json');
+    expect(error.message).toEqual('package.json is not defined.');
+    expect(getExitCode(error)).toEqual(ExitCodes.missingFile);
+  });
+
+  it('should return unsatisfied runtime exit code', () => {
+    const error = new UnsatisfiedRuntimeError(['node', 'npm']);
+    expect(error.message).toEqual('Current node, npm version(s) do not satisfy engines range constraints.');
+    expect(getExitCode(error)).toEqual(ExitCodes.unsatisfiedRuntime);
+  });
+
+  it('should return generic error exit code', () => {
+    expect(getExitCode(new Error('Oops'))).toEqual(ExitCodes.error);
+    expect(getExitCode('Oops')).toEqual(ExitCodes.error);
+  });
+});
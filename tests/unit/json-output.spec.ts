@@ -0,0 +1,190 @@
+import type { AnySchema } from 'ajv';
+import { dirname } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { Range } from 'semver';
+import { describe, expect, it, vi } from 'vitest';
+
+import { EnginesConflictError, SchemaValidationError } from '../../lib/errors.js';
+import { generateJSONOutput, jsonOutputVersion, printJSONOutput } from '../../lib/json-output.js';
+import { ajv, outputJSONSchema } from '../../lib/json-schema-validator.js';
+import { selectPackages } from '../../lib/tasks.js';
+import type {
+  CheckCommandContext,
+  EngineConstraintChange,
+  EngineConstraintConflict,
+  EngineConstraintKey,
+} from '../../lib/types.js';
+import { getJson, joinPath } from '../../lib/utils.js';
+
+const context: CheckCommandContext = {
+  path: 'package.json',
+  update: false,
+  updatePolicy: 'exact',
+  rangeStyle: 'preserve',
+  dryRun: false,
+  patchFile: undefined,
+  sort: false,
+  check: false,
+  workspaces: false,
+  explain: false,
+  format: 'json',
+  quiet: false,
+  workingDir: '.',
+  verbose: false,
+  debug: false,
+  engines: undefined,
+  ignore: [],
+  overrides: {},
+  omit: [],
+  only: undefined,
+  pins: false,
+  pinVersions: {},
+  doctor: false,
+  refreshReleaseSchedule: false,
+  dropEol: false,
+  date: new Date('2026-10-19'),
+  cache: false,
+  packageObject: { filename: 'package.json', relativePath: 'foo/package.json' },
+  packageLockObject: { filename: 'package-lock.json', relativePath: 'foo/package-lock.json' },
+  ranges: new Map<EngineConstraintKey, EngineConstraintChange>([
+    ['node', { from: new Range('>=12'), to: new Range('>=14.17.0') }],
+    ['npm', { from: undefined, to: new Range('*') }],
+  ]),
+  explanations: new Map([
+    ['node', { culprits: [], ignored: [], invalid: [{ path: 'node_modules/foo', range: 'foo' }] }],
+  ]),
+};
+
+const validateOutput = async () => {
+  const pathToFile = joinPath(dirname(fileURLToPath(import.meta.url)), '../../lib', outputJSONSchema);
+  return ajv.compile(await getJson<AnySchema>(pathToFile));
+};
+
+describe('json-output', () => {
+  describe('generateJSONOutput', () => {
+    it('should generate engines output', async () => {
+      const output = generateJSONOutput(context);
+
+      expect(output).toEqual({
+        version: jsonOutputVersion,
+        packageFile: 'foo/package.json',
+        lockFile: 'foo/package-lock.json',
+        engines: {
+          node: {
+            from: '>=12',
+            to: '>=14.17.0',
+            fromHumanized: '>=12.0.0',
+            toHumanized: '>=14.17.0',
+            changed: true,
+            change: 'tightened',
+            warnings: ['node_modules/foo declares an invalid range: foo'],
+          },
+          npm: {
+            from: '*',
+            to: '*',
+            fromHumanized: '*',
+            toHumanized: '*',
+            changed: false,
+            warnings: [],
+          },
+        },
+      });
+
+      const validate = await validateOutput();
+      expect(validate(output)).toBe(true);
+    });
+
+    it('should generate overridden packages output of packages without engines', async () => {
+      const { overriddenPackages } = selectPackages({
+        lockfile: { packages: { 'node_modules/foo': { version: '1.0.0' } } },
+        overrides: { foo: { node: '>=16.0.0' } },
+      });
+      const output = JSON.parse(JSON.stringify(generateJSONOutput({ ...context, overriddenPackages })));
+
+      expect(output.overriddenPackages).toEqual([
+        { path: 'node_modules/foo', pattern: 'foo', from: {}, to: { node: '>=16.0.0' } },
+      ]);
+
+      const validate = await validateOutput();
+      expect(validate(output)).toBe(true);
+    });
+
+    it('should warn when no supported Node.js major is left to keep with --drop-eol', async () => {
+      const output = generateJSONOutput({
+        ...context,
+        dropEol: true,
+        releaseSchedule: {
+          v14: { start: '2020-04-21', lts: '2020-10-27', maintenance: '2021-10-19', end: '2023-04-30' },
+          v16: { start: '2021-04-20', lts: '2021-10-26', maintenance: '2022-10-18', end: '2023-09-11' },
+        },
+        ranges: new Map([['node', { from: new Range('>=12'), to: new Range('^14.17.0 || ^16.10.0') }]]),
+        explanations: new Map(),
+      });
+
+      expect(output.engines['node']?.warnings).toEqual([
+        'No supported Node.js major left in ^14.17.0 || ^16.10.0, nothing dropped with --drop-eol.',
+      ]);
+
+      const validate = await validateOutput();
+      expect(validate(output)).toBe(true);
+    });
+
+    it('should generate error, conflicts and workspaces output', async () => {
+      const conflicts: EngineConstraintConflict[] = [
+        {
+          engine: 'node',
+          packages: [
+            { path: 'node_modules/foo', range: '>=18' },
+            { path: 'node_modules/bar', range: '^14.17.0' },
+          ],
+        },
+      ];
+      const error = new EnginesConflictError('Oops', conflicts);
+      const output = generateJSONOutput(
+        { ...context, ranges: new Map(), conflicts, workspaceContexts: [{ ...context }] },
+        error,
+      );
+
+      expect(output.engines).toEqual({});
+      expect(output.conflicts).toEqual(conflicts);
+      expect(output.workspaces?.[0]?.engines['node']?.changed).toBe(true);
+      expect(output.error).toEqual({ name: 'EnginesConflictError', message: 'Oops' });
+
+      const validate = await validateOutput();
+      expect(validate(output)).toBe(true);
+    });
+
+    it('should generate schema validation diagnostics output', async () => {
+      const diagnostics = [
+        {
+          path: 'foo/package-lock.json',
+          instancePath: '/packages/node_modules~1foo/engines',
+          message: 'must be object',
+          packageKey: 'node_modules/foo',
+          line: 12,
+          column: 18,
+        },
+      ];
+      const output = generateJSONOutput(
+        { ...context, ranges: new Map() },
+        new SchemaValidationError('Oops', 'foo/package-lock.json', diagnostics),
+      );
+
+      expect(output.error).toEqual({ name: 'SchemaValidationError', message: 'Oops', diagnostics });
+
+      const validate = await validateOutput();
+      expect(validate(output)).toBe(true);
+    });
+  });
+
+  describe('printJSONOutput', () => {
+    it('should print indented JSON document', () => {
+      const write = vi.fn();
+      printJSONOutput(generateJSONOutput(context), { write } as unknown as NodeJS.WriteStream);
+
+      expect(write).toHaveBeenCalledTimes(1);
+      expect(JSON.parse(write.mock.calls[0]?.[0])).toEqual(JSON.parse(JSON.stringify(generateJSONOutput(context))));
+      expect(write.mock.calls[0]?.[0]).toMatch(/\n$/);
+    });
+  });
+});
@@ -0,0 +1,72 @@
+import type { Debugger } from 'debug';
+import fs from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { getInstalledManifests, getUnpluggedManifests, indexManifestsByVersion } from '../../lib/manifests.js';
+
+const writeManifest = async (path: string, manifest: Record<string, unknown>): Promise<void> => {
+  await fs.mkdir(path, { recursive: true });
+  await fs.writeFile(join(path, 'package.json'), JSON.stringify(manifest), 'utf8');
+};
+
+describe('manifests', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(join(tmpdir(), 'nce-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('should return empty map if node_modules does not exist', async () => {
+    expect(await getInstalledManifests({ path: dir, debug: vi.fn() as unknown as Debugger })).toEqual(new Map());
+  });
+
+  it('should read installed manifests recursively', async () => {
+    await writeManifest(join(dir, 'node_modules', 'foo'), { name: 'foo', version: '1.0.0', engines: { node: '>=14' } });
+    await writeManifest(join(dir, 'node_modules', '@scope', 'bar'), { name: '@scope/bar', version: '2.0.0' });
+    await writeManifest(join(dir, 'node_modules', 'foo', 'node_modules', 'baz'), { name: 'baz', version: '3.0.0' });
+    await fs.mkdir(join(dir, 'node_modules', '.bin'), { recursive: true });
+    await fs.mkdir(join(dir, 'node_modules', 'empty'), { recursive: true });
+
+    expect(await getInstalledManifests({ path: dir, debug: vi.fn() as unknown as Debugger })).toEqual(
+      new Map([
+        ['node_modules/@scope/bar', { name: '@scope/bar', version: '2.0.0' }],
+        ['node_modules/foo', { name: 'foo', version: '1.0.0', engines: { node: '>=14' } }],
+        ['node_modules/foo/node_modules/baz', { name: 'baz', version: '3.0.0' }],
+      ]),
+    );
+  });
+
+  it('should read yarn unplugged manifests', async () => {
+    await writeManifest(join(dir, '.yarn', 'unplugged', 'foo-npm-1.0.0-abc', 'node_modules', 'foo'), {
+      name: 'foo',
+      version: '1.0.0',
+      engines: { node: '>=14' },
+    });
+
+    expect(await getUnpluggedManifests({ path: dir, debug: vi.fn() as unknown as Debugger })).toEqual(
+      new Map([
+        [
+          '.yarn/unplugged/foo-npm-1.0.0-abc/node_modules/foo',
+          { name: 'foo', version: '1.0.0', engines: { node: '>=14' } },
+        ],
+      ]),
+    );
+  });
+
+  it('should index manifests by version using shallowest path', () => {
+    const index = indexManifestsByVersion(
+      new Map([
+        ['node_modules/foo/node_modules/bar', { name: 'bar', version: '1.0.0' }],
+        ['node_modules/bar', { name: 'bar', version: '1.0.0' }],
+      ]),
+    );
+
+    expect(index).toEqual(new Map([['bar@1.0.0', ['node_modules/bar', { name: 'bar', version: '1.0.0' }]]]));
+  });
+});
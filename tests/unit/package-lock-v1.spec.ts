@@ -0,0 +1,38 @@
+import type { Debugger } from 'debug';
+import { describe, expect, it, vi } from 'vitest';
+
+import { packageLockV1ToPackages } from '../../lib/package-lock-v1.js';
+
+describe('package-lock-v1', () => {
+  it('should walk nested dependencies tree using installed manifests', () => {
+    expect(
+      packageLockV1ToPackages({
+        data: {
+          lockfileVersion: 1,
+          dependencies: {
+            foo: {
+              version: '1.0.0',
+              requires: { bar: '^1.0.0' },
+              dependencies: {
+                bar: { version: '1.0.0', dev: true },
+              },
+            },
+            bar: { version: '2.0.0', optional: true },
+            baz: { version: '3.0.0' },
+          },
+        },
+        manifests: new Map([
+          ['node_modules/foo', { name: 'foo', version: '1.0.0', engines: { node: '>=14.17.0' } }],
+          ['node_modules/foo/node_modules/bar', { name: 'bar', version: '1.0.0', engines: { node: '>=12.22.0' } }],
+          ['node_modules/bar', { name: 'bar', version: '2.0.0' }],
+        ]),
+        debug: vi.fn() as unknown as Debugger,
+      }),
+    ).toEqual({
+      'node_modules/foo': { engines: { node: '>=14.17.0' }, version: '1.0.0', dependencies: { bar: '^1.0.0' } },
+      'node_modules/foo/node_modules/bar': { engines: { node: '>=12.22.0' }, version: '1.0.0', dev: true },
+      'node_modules/bar': { engines: {}, version: '2.0.0', optional: true },
+      'node_modules/baz': { engines: {}, version: '3.0.0' },
+    });
+  });
+});
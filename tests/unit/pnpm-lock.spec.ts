@@ -0,0 +1,122 @@
+import { describe, expect, it } from 'vitest';
+
+import { getPnpmDependencyId, getPnpmPackageId, pnpmLockToPackages } from '../../lib/pnpm-lock.js';
+
+describe('pnpm-lock', () => {
+  describe('should return package id', () => {
+    it('w/ lockfile v5', () => {
+      expect(getPnpmPackageId('/foo/1.0.0', '5.4')).toEqual('foo@1.0.0');
+      expect(getPnpmPackageId('/@scope/foo/1.0.0', 5.3)).toEqual('@scope/foo@1.0.0');
+      expect(getPnpmPackageId('/foo/1.0.0_bar@2.0.0', '5.4')).toEqual('foo@1.0.0');
+    });
+
+    it('w/ lockfile v6', () => {
+      expect(getPnpmPackageId('/foo@1.0.0', '6.0')).toEqual('foo@1.0.0');
+      expect(getPnpmPackageId('/@scope/foo@1.0.0(bar@2.0.0)', '6.0')).toEqual('@scope/foo@1.0.0');
+    });
+
+    it('w/ lockfile v9', () => {
+      expect(getPnpmPackageId('foo@1.0.0', '9.0')).toEqual('foo@1.0.0');
+      expect(getPnpmPackageId('@scope/foo@1.0.0(bar@2.0.0)', '9.0')).toEqual('@scope/foo@1.0.0');
+    });
+  });
+
+  it('should convert lockfile v6 packages', () => {
+    expect(
+      pnpmLockToPackages({
+        lockfileVersion: '6.0',
+        packages: {
+          '/foo@1.0.0': { engines: { node: '>=14.17.0' } },
+          '/bar@2.0.0': {},
+        },
+      }),
+    ).toEqual({
+      'foo@1.0.0': { engines: { node: '>=14.17.0' } },
+      'bar@2.0.0': { engines: {} },
+    });
+  });
+
+  it('should keep dev and optional markers of lockfile v6 packages', () => {
+    expect(
+      pnpmLockToPackages({
+        lockfileVersion: '6.0',
+        packages: {
+          '/foo@1.0.0': { engines: { node: '>=18.0.0' }, dev: true },
+          '/bar@2.0.0': { dev: false, optional: true },
+        },
+      }),
+    ).toEqual({
+      'foo@1.0.0': { engines: { node: '>=18.0.0' }, dev: true },
+      'bar@2.0.0': { engines: {}, optional: true },
+    });
+  });
+
+  it('should convert lockfile v9 packages & snapshots', () => {
+    expect(
+      pnpmLockToPackages({
+        lockfileVersion: '9.0',
+        packages: {
+          'foo@1.0.0': { engines: { node: '>=14.17.0' } },
+          'bar@2.0.0': {},
+        },
+        snapshots: {
+          'foo@1.0.0(bar@2.0.0)': {},
+          'bar@2.0.0': {},
+          'baz@3.0.0': {},
+        },
+      }),
+    ).toEqual({
+      'foo@1.0.0': { engines: { node: '>=14.17.0' } },
+      'bar@2.0.0': { engines: {} },
+      'baz@3.0.0': { engines: {} },
+    });
+  });
+
+  it('should resolve lockfile v9 dependency id', () => {
+    expect(getPnpmDependencyId('foo', '1.0.0')).toEqual('foo@1.0.0');
+    expect(getPnpmDependencyId('foo', '1.0.0(@types/node@20.0.0)')).toEqual('foo@1.0.0');
+    expect(getPnpmDependencyId('foo', '@scope/bar@2.0.0')).toEqual('@scope/bar@2.0.0');
+    expect(getPnpmDependencyId('foo', 'link:../foo')).toBeUndefined();
+  });
+
+  it('should derive dev and optional markers of lockfile v9 packages from importers', () => {
+    expect(
+      pnpmLockToPackages({
+        lockfileVersion: '9.0',
+        importers: {
+          '.': {
+            dependencies: { foo: { version: '1.0.0' } },
+            devDependencies: { vitest: { version: '1.0.0(@types/node@20.0.0)' }, bar: { version: '2.0.0' } },
+          },
+        },
+        packages: {
+          'foo@1.0.0': { engines: { node: '>=14.17.0' } },
+          'bar@2.0.0': {},
+          'vitest@1.0.0': { engines: { node: '>=18.0.0' } },
+          'tinypool@1.0.0': {},
+          'fsevents@2.3.3': {},
+        },
+        snapshots: {
+          'foo@1.0.0': { dependencies: { bar: '2.0.0' } },
+          'bar@2.0.0': {},
+          'vitest@1.0.0(@types/node@20.0.0)': {
+            dependencies: { tinypool: '1.0.0' },
+            optionalDependencies: { fsevents: '2.3.3' },
+          },
+          'tinypool@1.0.0': {},
+          'fsevents@2.3.3': { optional: true },
+        },
+      }),
+    ).toEqual({
+      'foo@1.0.0': { engines: { node: '>=14.17.0' } },
+      'bar@2.0.0': { engines: {} },
+      'vitest@1.0.0': { engines: { node: '>=18.0.0' }, dev: true },
+      'tinypool@1.0.0': { engines: {}, dev: true },
+      'fsevents@2.3.3': { engines: {}, dev: true, optional: true },
+    });
+  });
+
+  it('should convert lockfile w/o packages', () => {
+    expect(pnpmLockToPackages({ lockfileVersion: '9.0' })).toEqual({});
+  });
+});
@@ -0,0 +1,72 @@
+import { Range } from 'semver';
+import { describe, expect, it } from 'vitest';
+
+import {
+  formatRangeIntervals,
+  intersectRangeIntervals,
+  isAboveRangeIntervals,
+  isEquivalentRange,
+  isSameLowerBound,
+  isSameRangeIntervals,
+  isSameUpperBound,
+  mergeRangeIntervals,
+  toRangeIntervals,
+} from '../../lib/range-intervals.js';
+
+describe('range-intervals', () => {
+  it('should convert range into sorted intervals', () => {
+    expect(formatRangeIntervals(toRangeIntervals(new Range('>=16.0.0 || ^14.17.0 || 12.22.0 || <1.0.0')))).toEqual(
+      '<1.0.0||12.22.0||>=14.17.0 <15.0.0-0||>=16.0.0',
+    );
+    expect(toRangeIntervals(new Range('>=16.0.0 <14.0.0'))).toEqual([]);
+  });
+
+  it('should merge overlapping and adjacent intervals', () => {
+    expect(
+      formatRangeIntervals(mergeRangeIntervals(toRangeIntervals('^14.17.0 || ^15.0.0 || >=15.2.0 <17.0.0', true))),
+    ).toEqual('>=14.17.0 <17.0.0');
+    expect(formatRangeIntervals(mergeRangeIntervals(toRangeIntervals('^14.17.0 || >=16.0.0', true)))).toEqual(
+      '>=14.17.0 <15.0.0||>=16.0.0',
+    );
+  });
+
+  it('should intersect intervals keeping comparator sets apart', () => {
+    expect(
+      formatRangeIntervals(
+        intersectRangeIntervals(
+          toRangeIntervals('^14.17.0 || ^16.10.0 || >=17.0.0'),
+          toRangeIntervals('>=14.18.0 <15.0.0 || >=16.0.0'),
+        ),
+      ),
+    ).toEqual('>=14.18.0 <15.0.0-0||>=16.10.0 <17.0.0-0||>=17.0.0');
+    expect(intersectRangeIntervals(toRangeIntervals('^14.17.0'), toRangeIntervals('>=16.0.0'))).toEqual([]);
+    expect(
+      formatRangeIntervals(intersectRangeIntervals(toRangeIntervals('<=16.0.0'), toRangeIntervals('>=16.0.0'))),
+    ).toEqual('16.0.0');
+  });
+
+  it('should compare intervals', () => {
+    expect(isSameRangeIntervals(toRangeIntervals('^14.17.0'), toRangeIntervals('>=14.17.0 <15.0.0-0'))).toBe(true);
+    expect(isSameRangeIntervals(toRangeIntervals('^14.17.0'), toRangeIntervals('>=14.17.0 <15.0.0'))).toBe(false);
+  });
+
+  it('should check semantic equality of ranges', () => {
+    expect(isEquivalentRange('^14.17.0 || ^15.0.0', '>=14.17.0 <16.0.0')).toBe(true);
+    expect(isEquivalentRange('>=14.17.0 <15.0.0-0', '>=14.17.0 <15.0.0')).toBe(true);
+    expect(isEquivalentRange('^0.3.0', '>=0.3.0 <1.0.0')).toBe(false);
+    expect(isEquivalentRange('>=14.17.0 <15.0.0 || >15.0.0', '>=14.17.0')).toBe(false);
+  });
+
+  it('should compare lowest and highest bounds of intervals', () => {
+    expect(isSameLowerBound(toRangeIntervals('>=14.0.0 <16.0.0'), toRangeIntervals('^14.0.0 || >=18.0.0'))).toBe(true);
+    expect(isSameLowerBound(toRangeIntervals('*'), toRangeIntervals('>=14.0.0'))).toBe(false);
+    expect(isSameUpperBound(toRangeIntervals('>=14.0.0'), toRangeIntervals('>=16.0.0'))).toBe(true);
+    expect(isSameUpperBound(toRangeIntervals('<16.0.0'), toRangeIntervals('<18.0.0'))).toBe(false);
+  });
+
+  it('should check whether intervals lie above others', () => {
+    expect(isAboveRangeIntervals(toRangeIntervals('>=18.0.0'), toRangeIntervals('<16.0.0'))).toBe(true);
+    expect(isAboveRangeIntervals(toRangeIntervals('<10.0.0'), toRangeIntervals('>=12.0.0'))).toBe(false);
+    expect(isAboveRangeIntervals(toRangeIntervals('>=18.0.0'), toRangeIntervals('>=12.0.0'))).toBe(false);
+  });
+});
@@ -0,0 +1,135 @@
+import fs from 'node:fs/promises';
+import { homedir, tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { Range } from 'semver';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+
+import {
+  dropEndOfLifeReleases,
+  formatNodeReleases,
+  getCachedNodeReleaseSchedulePath,
+  getNodeReleases,
+  getNodeReleaseSchedulePath,
+  getNodeReleaseStatus,
+  getUserCacheDirectory,
+  isNodeReleaseSchedule,
+  loadNodeReleaseSchedule,
+  parseDate,
+  writeNodeReleaseSchedule,
+} from '../../lib/release-schedule.js';
+import type { NodeReleaseSchedule } from '../../lib/types.js';
+
+const schedule: NodeReleaseSchedule = {
+  'v0.12': { start: '2015-02-06', maintenance: '2016-04-01', end: '2016-12-31' },
+  v14: { start: '2020-04-21', lts: '2020-10-27', maintenance: '2021-10-19', end: '2023-04-30', codename: 'Fermium' },
+  v15: { start: '2020-10-20', maintenance: '2021-04-01', end: '2021-06-01' },
+  v16: { start: '2021-04-20', lts: '2021-10-26', maintenance: '2022-10-18', end: '2023-09-11', codename: 'Gallium' },
+  v18: { start: '2022-04-19', lts: '2022-10-25', maintenance: '2023-10-18', end: '2025-04-30', codename: 'Hydrogen' },
+};
+
+describe('release-schedule', () => {
+  it('should load bundled release schedule', async () => {
+    const releaseSchedule = await loadNodeReleaseSchedule();
+    expect(isNodeReleaseSchedule(releaseSchedule)).toBe(true);
+    expect(releaseSchedule['v18']).toEqual(expect.objectContaining({ lts: '2022-10-25', codename: 'Hydrogen' }));
+  });
+
+  it('should get user cache directory', () => {
+    expect(getUserCacheDirectory({ XDG_CACHE_HOME: '/cache' }, 'linux')).toEqual(join('/cache', 'nce'));
+    expect(getUserCacheDirectory({}, 'linux')).toEqual(join(homedir(), '.cache', 'nce'));
+    expect(getUserCacheDirectory({}, 'darwin')).toEqual(join(homedir(), 'Library', 'Caches', 'nce'));
+    expect(getUserCacheDirectory({ LOCALAPPDATA: 'C:\\Local' }, 'win32')).toEqual(join('C:\\Local', 'nce', 'Cache'));
+  });
+
+  describe('refreshed release schedule', () => {
+    let dir: string;
+
+    beforeEach(async () => {
+      dir = await fs.mkdtemp(join(tmpdir(), 'nce-'));
+    });
+
+    afterEach(async () => {
+      await fs.rm(dir, { recursive: true, force: true });
+    });
+
+    it('should load refreshed release schedule before bundled one', async () => {
+      const path = getCachedNodeReleaseSchedulePath(join(dir, 'nce'));
+      await writeNodeReleaseSchedule(path, schedule);
+
+      expect(await loadNodeReleaseSchedule([path, getNodeReleaseSchedulePath()])).toEqual(schedule);
+    });
+
+    it('should fall back to bundled release schedule if refreshed one is missing or invalid', async () => {
+      const path = getCachedNodeReleaseSchedulePath(dir);
+      const releaseSchedule = await loadNodeReleaseSchedule([path, getNodeReleaseSchedulePath()]);
+      expect(releaseSchedule['v18']).toBeDefined();
+
+      await fs.writeFile(path, '{}', 'utf8');
+      expect(await loadNodeReleaseSchedule([path, getNodeReleaseSchedulePath()])).toEqual(releaseSchedule);
+      await expect(loadNodeReleaseSchedule([path])).rejects.toThrowError(
+        `Unable to load Node.js release schedule from ${path}.`,
+      );
+    });
+  });
+
+  it('should validate release schedule', () => {
+    expect(isNodeReleaseSchedule(schedule)).toBe(true);
+    expect(isNodeReleaseSchedule({})).toBe(false);
+    expect(isNodeReleaseSchedule({ v18: { start: '2022-04-19' } })).toBe(false);
+    expect(isNodeReleaseSchedule(null)).toBe(false);
+  });
+
+  it('should parse date', () => {
+    expect(parseDate('2023-01-01')).toEqual(new Date('2023-01-01'));
+    expect(() => parseDate('foo')).toThrowError('Invalid date foo, expected YYYY-MM-DD.');
+  });
+
+  it.each([
+    ['2020-01-01', 'unreleased'],
+    ['2020-04-21', 'current'],
+    ['2020-10-27', 'active LTS'],
+    ['2021-10-19', 'maintenance LTS'],
+    ['2023-04-30', 'end-of-life'],
+  ])('should return v14 status at %s', (date, expected) => {
+    expect(getNodeReleaseStatus(schedule['v14'] as NodeReleaseSchedule[string], new Date(date))).toBe(expected);
+  });
+
+  it('should return non-LTS maintenance status', () => {
+    expect(getNodeReleaseStatus(schedule['v15'] as NodeReleaseSchedule[string], new Date('2021-05-01'))).toBe(
+      'maintenance',
+    );
+  });
+
+  it('should list majors covered by range', () => {
+    expect(getNodeReleases(new Range('>=0.12.0'), schedule, new Date('2022-01-01'))).toEqual([
+      { major: '0.12', status: 'end-of-life' },
+      { major: '14', status: 'maintenance LTS' },
+      { major: '15', status: 'end-of-life' },
+      { major: '16', status: 'active LTS' },
+      { major: '18', status: 'unreleased' },
+    ]);
+    expect(getNodeReleases(new Range('^14.17.0 || >=18.0.0'), schedule, new Date('2022-01-01'))).toEqual([
+      { major: '14', status: 'maintenance LTS' },
+      { major: '18', status: 'unreleased' },
+    ]);
+  });
+
+  it('should format releases grouped by status', () => {
+    expect(formatNodeReleases(getNodeReleases(new Range('>=14.0.0'), schedule, new Date('2024-01-01')))).toEqual(
+      '14-16 end-of-life; 18 maintenance LTS',
+    );
+    expect(formatNodeReleases(getNodeReleases(new Range('>=0.12.0'), schedule, new Date('2022-01-01')))).toEqual(
+      '0.12, 15 end-of-life; 14 maintenance LTS; 16 active LTS; 18 unreleased',
+    );
+  });
+
+  it('should drop leading end-of-life releases', () => {
+    const releases = getNodeReleases(new Range('>=14.0.0'), schedule, new Date('2024-01-01'));
+    expect(dropEndOfLifeReleases(releases)).toEqual({
+      minimum: { major: '18', status: 'maintenance LTS' },
+      dropped: releases.slice(0, 3),
+    });
+    expect(dropEndOfLifeReleases(releases.slice(3))).toEqual({ minimum: undefined, dropped: [] });
+    expect(dropEndOfLifeReleases(releases.slice(0, 3))).toEqual({ minimum: undefined, dropped: [] });
+  });
+});
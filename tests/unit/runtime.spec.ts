@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+
+import { getCommandVersion, getRuntimeVersions, parseUserAgent } from '../../lib/runtime.js';
+
+describe('runtime', () => {
+  it('should parse package manager user agent', () => {
+    expect(parseUserAgent('npm/9.8.1 node/v18.17.0 linux x64 workspaces/false')).toEqual(
+      new Map([
+        ['npm', '9.8.1'],
+        ['node', '18.17.0'],
+      ]),
+    );
+    expect(parseUserAgent('yarn/1.22.19 npm/? node/v16.20.0 darwin arm64')).toEqual(
+      new Map([
+        ['yarn', '1.22.19'],
+        ['node', '16.20.0'],
+      ]),
+    );
+    expect(parseUserAgent('')).toEqual(new Map());
+  });
+
+  it('should get runtime versions with current node version', () => {
+    expect(
+      getRuntimeVersions({ nodeVersion: 'v20.5.0', userAgent: 'pnpm/8.6.0 npm/? node/v18.17.0 linux x64' }),
+    ).toEqual(
+      new Map([
+        ['pnpm', '8.6.0'],
+        ['node', '20.5.0'],
+      ]),
+    );
+  });
+
+  it('should get version of command', async () => {
+    expect(await getCommandVersion('node')).toEqual(process.version.slice(1));
+    expect(await getCommandVersion('nce-missing-command')).toBeUndefined();
+  });
+});
@@ -0,0 +1,114 @@
+import type { ErrorObject } from 'ajv';
+import { describe, expect, it } from 'vitest';
+
+import {
+  generateSchemaValidationMessage,
+  getPackageKey,
+  getSchemaValidationDiagnostics,
+  getSourcePosition,
+  parseJsonPointer,
+  toJsonPointer,
+} from '../../lib/schema-diagnostics.js';
+
+const source = `{
+  "name": "foo",
+  "packages": {
+    "": { "engines": { "node": ">=14" } },
+    "node_modules/a~b/c": {
+      "engines": 42
+    }
+  }
+}
+`;
+
+const error = (instancePath: string, message: string): ErrorObject => ({
+  instancePath,
+  message,
+  keyword: 'type',
+  schemaPath: '#/type',
+  params: {},
+});
+
+describe('schema-diagnostics', () => {
+  it('should parse and stringify JSON pointers', () => {
+    expect(parseJsonPointer('')).toEqual([]);
+    expect(parseJsonPointer('/packages/node_modules~1a~0b~1c/engines')).toEqual([
+      'packages',
+      'node_modules/a~b/c',
+      'engines',
+    ]);
+    expect(toJsonPointer(['packages', 'node_modules/a~b/c'])).toBe('/packages/node_modules~1a~0b~1c');
+  });
+
+  it('should get offending package key', () => {
+    expect(getPackageKey(['packages', 'node_modules/a', 'engines'])).toBe('node_modules/a');
+    expect(getPackageKey(['dependencies', 'a'])).toBe('a');
+    expect(getPackageKey(['packages'])).toBeUndefined();
+    expect(getPackageKey(['engines', 'node'])).toBeUndefined();
+  });
+
+  describe('getSourcePosition', () => {
+    it('should locate JSON value', () => {
+      expect(getSourcePosition(source, ['packages', 'node_modules/a~b/c', 'engines'])).toEqual({ line: 6, column: 18 });
+      expect(getSourcePosition(source, [])).toEqual({ line: 1, column: 1 });
+    });
+
+    it('should locate closest existing ancestor of missing value', () => {
+      expect(getSourcePosition(source, ['packages', '', 'engines', 'npm'])).toEqual({ line: 4, column: 22 });
+    });
+
+    it('should locate YAML value', () => {
+      expect(
+        getSourcePosition('lockfileVersion: 5.4\npackages:\n  /a/1.0.0:\n    engines: 42\n', [
+          'packages',
+          '/a/1.0.0',
+          'engines',
+        ]),
+      ).toEqual({
+        line: 4,
+        column: 14,
+      });
+    });
+  });
+
+  it('should get diagnostics of ajv errors', () => {
+    const diagnostics = getSchemaValidationDiagnostics({
+      errors: [error('/packages/node_modules~1a~0b~1c/engines', 'must be object'), error('', 'must be object')],
+      path: 'package-lock.json',
+      source,
+    });
+
+    expect(diagnostics).toEqual([
+      {
+        path: 'package-lock.json',
+        instancePath: '/packages/node_modules~1a~0b~1c/engines',
+        message: 'must be object',
+        packageKey: 'node_modules/a~b/c',
+        line: 6,
+        column: 18,
+      },
+      { path: 'package-lock.json', instancePath: '', message: 'must be object', line: 1, column: 1 },
+    ]);
+    expect(generateSchemaValidationMessage(diagnostics)).toBe(
+      [
+        'package-lock.json:6:18 must be object at /packages/node_modules~1a~0b~1c/engines of package node_modules/a~b/c',
+        'package-lock.json:1:1 must be object at (root)',
+      ].join('\n'),
+    );
+  });
+
+  it('should prefix JSON pointer and omit position without source', () => {
+    const diagnostics = getSchemaValidationDiagnostics({
+      errors: [error('/format', 'must be equal to one of the allowed values')],
+      path: 'package.json',
+      pointerPrefix: ['nce'],
+    });
+
+    expect(diagnostics).toEqual([
+      { path: 'package.json', instancePath: '/nce/format', message: 'must be equal to one of the allowed values' },
+    ]);
+    expect(generateSchemaValidationMessage(diagnostics)).toBe(
+      'package.json must be equal to one of the allowed values at /nce/format',
+    );
+  });
+});
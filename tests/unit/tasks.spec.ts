@@ -1,28 +1,66 @@
 import chalk from 'chalk';
 import type { Debugger } from 'debug';
 import type { ListrRenderer, ListrTaskWrapper } from 'listr2';
+import fs from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join, sep } from 'node:path';
 import { Comparator, Range } from 'semver';
-import { beforeEach, describe, expect, it, SpyInstance, vi } from 'vitest';
+import { afterEach, beforeEach, describe, expect, it, SpyInstance, vi } from 'vitest';
 
+import {
+  EnginesConflictError,
+  MissingFileError,
+  OutdatedEnginesError,
+  SchemaValidationError,
+  UnsatisfiedRuntimeError,
+} from '../../lib/errors.js';
+import * as runtime from '../../lib/runtime.js';
 import {
   checkCommandTasks,
+  checkEnginesUpToDate,
+  checkRuntimeVersions,
   cliCommandTask,
+  colorizeDiff,
+  computeEngines,
   computeEnginesConstraints,
+  detectLockFilename,
+  discoverEngineKeys,
+  dropEndOfLifeNodeRange,
+  generateAppliedAdjustmentsMessage,
+  generateConflictsMessage,
+  generateExplanationMessage,
   generateUpdateCommandFromContext,
+  getRangeChangeType,
+  getUnsatisfiedPackages,
   humanizeRange,
+  isAllowedByUpdatePolicy,
   loadPackageFile,
   loadPackageLockFile,
   outputComputedConstraints,
   rangeOptions,
-  restrictiveRange,
+  readPackageFile,
+  readPackageLockFile,
+  resolveWorkspaces,
   sortRangeSet,
   updatePackageJson,
+  updateVersionPins,
+  validateDependencyTypesSelection,
+  writePatchFile,
 } from '../../lib/tasks.js';
-import type { CheckCommandContext, PackageLockJSONSchema } from '../../lib/types.js';
+import type {
+  CheckCommandContext,
+  ComputeEnginesOptions,
+  FileObject,
+  NodeReleaseSchedule,
+  PackageJSONSchema,
+  PackageLockJSONSchema,
+  VersionPinCheck,
+} from '../../lib/types.js';
 import * as utils from '../../lib/utils.js';
 
 const packageJsonSchema = require('../../schemas/schema-package.json');
 const packageLockJsonSchema = require('../../schemas/schema-package-lock.json');
+const pnpmLockYamlSchema = require('../../schemas/schema-pnpm-lock.json');
 
 describe('tasks', () => {
   it('should sort range', () => {
@@ -46,114 +84,58 @@ describe('tasks', () => {
     ]);
   });
 
-  describe('should return restrictive range', () => {
-    it('w/ r1 subset of r2', () => {
-      expect(
-        restrictiveRange(
-          new Range('^14.17.0 || ^16.10.0'),
-          new Range('^14.0.0 || ^16.0.0'),
-          [],
-          vi.fn() as unknown as Debugger,
-        ),
-      ).toEqual(new Range('^14.17.0 || ^16.10.0'));
-    });
-
-    it('w/ r2 subset of r1', () => {
-      expect(
-        restrictiveRange(
-          new Range('^14.0.0 || ^16.0.0'),
-          new Range('^14.17.0 || ^16.10.0'),
-          [],
-          vi.fn() as unknown as Debugger,
-        ),
-      ).toEqual(new Range('^14.17.0 || ^16.10.0'));
-    });
-
-    it('w/ r1 subset of r2 using min version', () => {
-      expect(
-        restrictiveRange(
-          new Range('^14.13.0 || ^16.10.0'),
-          new Range('^14.17.0 || ^16.0.0'),
-          [],
-          vi.fn() as unknown as Debugger,
-        ),
-      ).toEqual(new Range('>=14.17.0 <15.0.0-0||>=16.10.0 <17.0.0-0', rangeOptions));
-      expect(
-        restrictiveRange(
-          new Range('^14.13.0 || ^16.10.0'),
-          new Range('^12.22.0 || ^14.17.0 || ^16.0.0'),
-          [],
-          vi.fn() as unknown as Debugger,
-        ),
-      ).toEqual(new Range('>=14.17.0 <15.0.0-0||>=16.10.0 <17.0.0-0', rangeOptions));
-      expect(
-        restrictiveRange(
-          new Range('^12.22.0 || ^14.17.0'),
-          new Range('^14.13.0 || ^16.10.0'),
-          [],
-          vi.fn() as unknown as Debugger,
-        ),
-      ).toEqual(new Range('>=14.17.0 <15.0.0-0', rangeOptions));
-    });
-
-    it('w/ r2 subset of r1 using min version', () => {
-      expect(
-        restrictiveRange(
-          new Range('^14.17.0 || ^16.0.0'),
-          new Range('^14.13.0 || ^16.10.0'),
-          [],
-          vi.fn() as unknown as Debugger,
-        ),
-      ).toEqual(new Range('>=14.17.0 <15.0.0-0||>=16.10.0 <17.0.0-0', rangeOptions));
-      expect(
-        restrictiveRange(
-          new Range('^12.22.0 || ^14.17.0 || ^16.0.0'),
-          new Range('^14.13.0 || ^16.10.0'),
-          [],
-          vi.fn() as unknown as Debugger,
-        ),
-      ).toEqual(new Range('>=14.17.0 <15.0.0-0||>=16.10.0 <17.0.0-0', rangeOptions));
-      expect(
-        restrictiveRange(
-          new Range('^14.13.0 || ^16.10.0'),
-          new Range('^12.22.0 || ^14.17.0'),
-          [],
-          vi.fn() as unknown as Debugger,
-        ),
-      ).toEqual(new Range('>=14.17.0 <15.0.0-0', rangeOptions));
-      expect(
-        restrictiveRange(
-          new Range('>=12.22.0'),
-          new Range('^12.13.0 || ^14.15.0 || ^16.10.0 || >=17.0.0'),
-          [],
-          vi.fn() as unknown as Debugger,
-        ),
-      ).toEqual(new Range('>=12.22.0 <13.0.0-0||>=14.15.0 <15.0.0-0||>=16.10.0 <17.0.0-0||>=17.0.0'));
-    });
-
-    it('w/ mixed r1 r2', () => {
-      expect(
-        restrictiveRange(
-          new Range('^14.13.0 || ^16.10.0'),
-          new Range('^12.22.0 || >=14.17.0'),
-          [],
-          vi.fn() as unknown as Debugger,
-        ),
-      ).toEqual(new Range('>=14.17.0 <15.0.0-0||>=16.10.0 <17.0.0-0', rangeOptions));
-    });
+  it('should generate explanation message', () => {
+    expect(
+      generateExplanationMessage({
+        explanations: new Map([
+          [
+            'node',
+            {
+              culprits: [
+                { path: 'node_modules/foo', range: '>=12.22.0', result: '>=12.22.0' },
+                { path: 'node_modules/foo/node_modules/bar', range: '^14.17.0', result: '>=14.17.0 <15.0.0-0' },
+              ],
+              ignored: [{ path: 'node_modules/baz', range: '>=10.0.0' }],
+              invalid: [{ path: 'node_modules/qux', range: '>=a.b.c' }],
+            },
+          ],
+          ['npm', { culprits: [], ignored: [], invalid: [] }],
+        ]),
+        packages: {
+          '': { engines: {}, dependencies: { foo: '^1.0.0' } },
+          'node_modules/foo': { engines: {}, dependencies: { bar: '^1.0.0' } },
+          'node_modules/foo/node_modules/bar': { engines: {} },
+        },
+        rootName: 'example',
+      }),
+    ).toEqual(
+      'Explanation of computed engines range constraints:\n\n' +
+        `${chalk.bold('node')}:\n\n` +
+        ' 1.  example > foo        >=12.22.0  >=12.22.0 \n' +
+        ' 2.  example > foo > bar  ^14.17.0   ^14.17.0  \n\n' +
+        'Ignored as supersets: baz (>=10.0.0)\n\n' +
+        'Invalid ranges: qux (>=a.b.c)\n\n' +
+        `${chalk.bold('npm')}: no package constrains this engine.`,
+    );
+  });
 
-    it('w/ intersection at middle range', () => {
-      expect(
-        restrictiveRange(
-          new Range('>=14.15.0 <15.0.0-0||>=16.10.0'),
-          new Range('>=14.15.0 <15.0.0-0||>=16.0.0 <17.0.0-0||>=17.0.0 <18.0.0-0||>=18.0.0 <19.0.0-0'),
-          [],
-          vi.fn() as unknown as Debugger,
-        ),
-      ).toEqual(
-        new Range('>=14.15.0 <15.0.0-0||>=16.10.0 <17.0.0-0||>=17.0.0 <18.0.0-0||>=18.0.0 <19.0.0-0', rangeOptions),
-      );
-    });
+  it('should generate conflicts message', () => {
+    expect(
+      generateConflictsMessage([
+        {
+          engine: 'node',
+          packages: [
+            { path: '', range: '>=18.0.0' },
+            { path: 'node_modules/a/node_modules/b', range: '^14.17.0' },
+          ],
+        },
+      ]),
+    ).toEqual(
+      'Conflicting engines range constraints:\n\n' +
+        ' node  (root)                         >=18.0.0 \n' +
+        '       node_modules/a/node_modules/b  ^14.17.0 \n\n' +
+        'Pin or replace one of the conflicting packages.',
+    );
   });
 
   describe('should simplify range', () => {
@@ -174,6 +156,30 @@ describe('tasks', () => {
       expect(humanizeRange(new Range('>14.17.0'))).toEqual('>14.17.0');
       expect(humanizeRange(new Range('14.17.0'))).toEqual('14.17.0');
     });
+
+    it('should not simplify 0.x range spanning several minors w/ caret', () => {
+      expect(humanizeRange(new Range('>=0.3.0 <1.0.0-0'))).toEqual('>=0.3.0 <1.0.0-0');
+      expect(humanizeRange(new Range('>=0.3.0 <0.4.0-0'))).toEqual('^0.3.0');
+      expect(humanizeRange(new Range('>=0.0.3 <0.0.4-0'), 'caret')).toEqual('^0.0.3');
+    });
+
+    it('should simplify prerelease comparators', () => {
+      expect(humanizeRange(new Range('>=14.0.0-beta.1 <15.0.0-0'))).toEqual('^14.0.0-beta.1');
+      expect(humanizeRange(new Range('>=14.0.0-beta.1 <15.0.0-0'), 'gte')).toEqual('>=14.0.0-beta.1 <15.0.0');
+    });
+
+    it.each([
+      ['caret', '^14.17.0 || ^15.0.0 || ^16.0.0', '>=14.17.0 <14.19.0'],
+      ['tilde', '>=14.17.0 <17.0.0', '~14.17.0 || ~14.18.0'],
+      ['gte', '>=14.17.0 <17.0.0', '>=14.17.0 <14.19.0'],
+      ['preserve', '>=14.17.0 <17.0.0-0', '>=14.17.0 <14.19.0-0'],
+    ] as const)('should simplify w/ %s style', (style, expected1, expected2) => {
+      expect(humanizeRange(new Range('>=14.17.0 <17.0.0-0'), style)).toEqual(expected1);
+      expect(humanizeRange(new Range('>=14.17.0 <14.19.0-0'), style)).toEqual(expected2);
+      expect(humanizeRange(new Range('^14.17.0 || ^15.0.0 || >=16.0.0'), style)).toEqual(
+        'preserve' === style ? '^14.17.0 || ^15.0.0 || >=16.0.0' : '>=14.17.0',
+      );
+    });
   });
 
   it('should return list of tasks', async () => {
@@ -213,6 +219,108 @@ describe('tasks', () => {
     ]);
   });
 
+  it('should return list of tasks w/ workspaces', async () => {
+    const cmd = checkCommandTasks({
+      context: {
+        workspaces: true,
+        packageObject: {
+          filename: 'package.json',
+        },
+        packageLockObject: {
+          filename: 'package-lock.json',
+        },
+      } as CheckCommandContext,
+      parent: {} as unknown as Omit<ListrTaskWrapper<CheckCommandContext, typeof ListrRenderer>, 'skip' | 'enabled'>,
+      debug: vi.fn() as unknown as Debugger,
+    });
+    expect(cmd).toHaveLength(6);
+    expect(cmd[5]).toEqual(
+      expect.objectContaining({
+        title: 'Check workspaces engines range constraints...',
+        task: expect.any(Function),
+      }),
+    );
+  });
+
+  describe('should resolve workspaces', () => {
+    it('should throw error if package does not contain workspaces', () => {
+      const ctx: CheckCommandContext = {
+        packageObject: { filename: 'package.json', data: {} },
+        packageLockObject: { filename: 'package-lock.json', data: { packages: {} } },
+      } as CheckCommandContext;
+      expect.assertions(1);
+      try {
+        resolveWorkspaces({
+          ctx,
+          task: {} as ListrTaskWrapper<CheckCommandContext, typeof ListrRenderer>,
+          parent: {} as Omit<ListrTaskWrapper<CheckCommandContext, typeof ListrRenderer>, 'skip' | 'enabled'>,
+          debug: vi.fn() as unknown as Debugger,
+        });
+      } catch (e) {
+        expect(e).toEqual(new Error('package.json does not contain workspaces property.'));
+      }
+    });
+
+    it('should throw error if no workspace found in lock file', () => {
+      const ctx: CheckCommandContext = {
+        packageObject: { filename: 'package.json', data: { workspaces: ['packages/*'] } },
+        packageLockObject: { filename: 'package-lock.json', data: { packages: {} } },
+      } as unknown as CheckCommandContext;
+      expect.assertions(1);
+      try {
+        resolveWorkspaces({
+          ctx,
+          task: {} as ListrTaskWrapper<CheckCommandContext, typeof ListrRenderer>,
+          parent: {} as Omit<ListrTaskWrapper<CheckCommandContext, typeof ListrRenderer>, 'skip' | 'enabled'>,
+          debug: vi.fn() as unknown as Debugger,
+        });
+      } catch (e) {
+        expect(e).toEqual(new Error('No workspace found in package-lock.json.'));
+      }
+    });
+
+    it('should set workspace contexts', () => {
+      const ctx: CheckCommandContext = {
+        path: '',
+        workspaces: true,
+        packageObject: { filename: 'package.json', data: { workspaces: ['packages/*'] } },
+        packageLockObject: {
+          filename: 'package-lock.json',
+          data: {
+            packages: {
+              'node_modules/a': { resolved: 'packages/a', link: true },
+              'node_modules/foo': { engines: { node: '>=14.17.0' } },
+              'packages/a': { dependencies: { foo: '^1.0.0' } },
+            },
+          },
+        },
+        ranges: new Map(),
+      } as unknown as CheckCommandContext;
+      resolveWorkspaces({
+        ctx,
+        task: {} as ListrTaskWrapper<CheckCommandContext, typeof ListrRenderer>,
+        parent: {} as Omit<ListrTaskWrapper<CheckCommandContext, typeof ListrRenderer>, 'skip' | 'enabled'>,
+        debug: vi.fn() as unknown as Debugger,
+      });
+      expect(ctx.workspaceContexts).toEqual([
+        {
+          path: '',
+          workspaces: true,
+          packageObject: { filename: join('packages', 'a', 'package.json') },
+          packageLockObject: {
+            filename: 'package-lock.json',
+            data: {
+              packages: {
+                'packages/a': { dependencies: { foo: '^1.0.0' } },
+                'node_modules/foo': { engines: { node: '>=14.17.0' } },
+              },
+            },
+          },
+        },
+      ]);
+    });
+  });
+
   it('should return cliCommandTask', () => {
     expect(
       cliCommandTask(
@@ -303,7 +411,7 @@ describe('tasks', () => {
         debug: { extend: vi.fn(() => vi.fn()) } as unknown as Debugger,
       });
       expect(spyOnTitle).toHaveBeenCalledWith(
-        `Computed engines range constraints:\n\n node  *  →  ^14.17.0 || ^16.10.0 \n\nRun ${chalk.cyan(
+        `Computed engines range constraints:\n\n node  *  →  ^14.17.0 || ^16.10.0  tightened \n\nRun ${chalk.cyan(
           'nce -u',
         )} to upgrade package.json.`,
       );
@@ -336,7 +444,7 @@ describe('tasks', () => {
         debug: { extend: vi.fn(() => vi.fn()) } as unknown as Debugger,
       });
       expect(spyOnTitle).toHaveBeenCalledWith(
-        `Computed engines range constraints:\n\n node  *  →  ^14.17.0 || ^16.10.0 `,
+        `Computed engines range constraints:\n\n node  *  →  ^14.17.0 || ^16.10.0  tightened `,
       );
       expect(ctx).toEqual(
         expect.objectContaining({
@@ -344,9 +452,476 @@ describe('tasks', () => {
         }),
       );
     });
+
+    it('should output computed range constraints w/ range style', () => {
+      const ctx: CheckCommandContext = {
+        packageObject: { filename: 'package.json' },
+        rangeStyle: 'gte',
+        ranges: new Map([['node', { from: new Range('^14.17.0'), to: new Range('^14.17.0 || ^15.0.0 || >=16.0.0') }]]),
+      } as CheckCommandContext;
+      const parent = {} as Omit<ListrTaskWrapper<CheckCommandContext, typeof ListrRenderer>, 'skip' | 'enabled'>;
+      Object.defineProperty(parent, 'title', {
+        get: vi.fn(() => ''),
+        set: vi.fn(),
+        configurable: true,
+      });
+      const spyOnTitle = vi.spyOn(parent, 'title', 'set');
+      outputComputedConstraints({
+        ctx,
+        task: {} as ListrTaskWrapper<CheckCommandContext, typeof ListrRenderer>,
+        parent,
+        debug: { extend: vi.fn(() => vi.fn()) } as unknown as Debugger,
+      });
+      expect(spyOnTitle).toHaveBeenCalledWith(
+        `Computed engines range constraints:\n\n node  >=14.17.0 <15.0.0  →  >=14.17.0  loosened \n\n` +
+          `Run ${chalk.cyan('nce --range-style gte -u')} to upgrade package.json.`,
+      );
+      expect(ctx).toEqual(
+        expect.objectContaining({
+          rangesSimplified: new Map([['node', '>=14.17.0']]),
+        }),
+      );
+    });
+
+    it('should skip computed range constraints not allowed by update policy', () => {
+      const ctx: CheckCommandContext = {
+        packageObject: { filename: 'package.json' },
+        updatePolicy: 'tighten-only',
+        ranges: new Map([
+          ['node', { from: new Range('>=16'), to: new Range('>=14.17.0') }],
+          ['npm', { from: new Range('>=6'), to: new Range('>=7.0.0') }],
+        ]),
+      } as CheckCommandContext;
+      const parent = {} as Omit<ListrTaskWrapper<CheckCommandContext, typeof ListrRenderer>, 'skip' | 'enabled'>;
+      Object.defineProperty(parent, 'title', {
+        get: vi.fn(() => ''),
+        set: vi.fn(),
+        configurable: true,
+      });
+      const spyOnTitle = vi.spyOn(parent, 'title', 'set');
+      outputComputedConstraints({
+        ctx,
+        task: {} as ListrTaskWrapper<CheckCommandContext, typeof ListrRenderer>,
+        parent,
+        debug: { extend: vi.fn(() => vi.fn()) } as unknown as Debugger,
+      });
+      expect(spyOnTitle).toHaveBeenCalledWith(
+        `Computed engines range constraints:\n\n` +
+          ` node  >=16.0.0  →  >=14.17.0  loosened (skipped by tighten-only policy) \n` +
+          ` npm   >=6.0.0   →  >=7.0.0    tightened                                 \n\n` +
+          `Run ${chalk.cyan('nce --update-policy tighten-only -u')} to upgrade package.json.`,
+      );
+      expect(ctx).toEqual(
+        expect.objectContaining({
+          rangesSimplified: new Map([['npm', '>=7.0.0']]),
+        }),
+      );
+    });
+  });
+
+  describe('should drop end-of-life Node.js majors', () => {
+    const releaseSchedule: NodeReleaseSchedule = {
+      v14: { start: '2020-04-21', lts: '2020-10-27', maintenance: '2021-10-19', end: '2023-04-30' },
+      v16: { start: '2021-04-20', lts: '2021-10-26', maintenance: '2022-10-18', end: '2023-09-11' },
+      v18: { start: '2022-04-19', lts: '2022-10-25', maintenance: '2023-10-18', end: '2025-04-30' },
+    };
+
+    it('should raise node range minimum to lowest supported major', () => {
+      const { range, dropped } = dropEndOfLifeNodeRange(
+        new Range('^14.17.0 || ^16.10.0 || >=18.0.0'),
+        releaseSchedule,
+        new Date('2024-01-01'),
+        vi.fn() as unknown as Debugger,
+      );
+      expect(humanizeRange(range)).toEqual('>=18.0.0');
+      expect(dropped).toEqual([
+        { major: '14', status: 'end-of-life' },
+        { major: '16', status: 'end-of-life' },
+      ]);
+    });
+
+    it('should keep upper bounds of node range', () => {
+      const { range, dropped } = dropEndOfLifeNodeRange(
+        new Range('^14.17.0 || ^16.10.0 || ^18.12.0'),
+        releaseSchedule,
+        new Date('2023-06-01'),
+        vi.fn() as unknown as Debugger,
+      );
+      expect(humanizeRange(range)).toEqual('^16.10.0 || ^18.12.0');
+      expect(dropped).toEqual([{ major: '14', status: 'end-of-life' }]);
+    });
+
+    it('should annotate node row with covered majors', () => {
+      const ctx: CheckCommandContext = {
+        packageObject: { filename: 'package.json' },
+        update: true,
+        releaseSchedule,
+        date: new Date('2024-01-01'),
+        droppedReleases: [{ major: '14', status: 'end-of-life' }],
+        ranges: new Map([['node', { from: new Range('*'), to: new Range('>=16.0.0') }]]),
+      } as CheckCommandContext;
+      const parent = { title: '' } as Omit<
+        ListrTaskWrapper<CheckCommandContext, typeof ListrRenderer>,
+        'skip' | 'enabled'
+      >;
+      outputComputedConstraints({
+        ctx,
+        task: {} as ListrTaskWrapper<CheckCommandContext, typeof ListrRenderer>,
+        parent,
+        debug: { extend: vi.fn(() => vi.fn()) } as unknown as Debugger,
+      });
+      expect(parent.title).toEqual(
+        `Computed engines range constraints:\n\n node  *  →  >=16.0.0  tightened \n\n` +
+          `Node.js majors covered by >=16.0.0: 16 end-of-life; 18 maintenance LTS.\n` +
+          `Dropped with --drop-eol: 14 end-of-life.`,
+      );
+    });
+
+    it('should warn when no supported Node.js major is left', () => {
+      const range = new Range('^14.17.0 || ^16.10.0 || ^18.12.0');
+      const date = new Date('2025-06-01');
+      const ctx: CheckCommandContext = {
+        packageObject: { filename: 'package.json' },
+        update: true,
+        dropEol: true,
+        releaseSchedule,
+        date,
+        ranges: new Map([['node', { from: range, to: range }]]),
+      } as CheckCommandContext;
+      const parent = { title: '' } as Omit<
+        ListrTaskWrapper<CheckCommandContext, typeof ListrRenderer>,
+        'skip' | 'enabled'
+      >;
+      expect(dropEndOfLifeNodeRange(range, releaseSchedule, date, vi.fn() as unknown as Debugger).dropped).toEqual([]);
+      outputComputedConstraints({
+        ctx,
+        task: {} as ListrTaskWrapper<CheckCommandContext, typeof ListrRenderer>,
+        parent,
+        debug: { extend: vi.fn(() => vi.fn()) } as unknown as Debugger,
+      });
+      expect(parent.title).toEqual(
+        `All computed engines range constraints are up-to-date :)\n\n` +
+          `No supported Node.js major left in ^14.17.0 || ^16.10.0 || ^18.12.0, nothing dropped with --drop-eol.`,
+      );
+    });
+  });
+
+  describe('getRangeChangeType', () => {
+    it.each([
+      [undefined, '>=14', 'tightened'],
+      ['>=14', '>=16', 'tightened'],
+      ['>=16', '>=14', 'loosened'],
+      ['^14.17.0', '^16.10.0', 'incompatible'],
+    ])('should classify %s → %s as %s', (from, to, expected) => {
+      expect(getRangeChangeType({ from: from ? new Range(from) : undefined, to: new Range(to) })).toBe(expected);
+    });
+  });
+
+  describe('isAllowedByUpdatePolicy', () => {
+    it.each([
+      ['tightened', 'tighten-only', true],
+      ['loosened', 'tighten-only', false],
+      ['incompatible', 'tighten-only', false],
+      ['loosened', 'loosen', true],
+      ['incompatible', 'loosen', false],
+      ['incompatible', 'exact', true],
+    ] as const)('should allow %s change with %s policy: %s', (changeType, updatePolicy, expected) => {
+      expect(isAllowedByUpdatePolicy(changeType, updatePolicy)).toBe(expected);
+    });
+  });
+
+  describe('should compute engines', () => {
+    it('should compute engines without side effects', () => {
+      const packageJson = { engines: { node: '>=12.22.0' } };
+      const lockfile: PackageLockJSONSchema = {
+        packages: {
+          '': { engines: {} },
+          'node_modules/foo': { engines: { node: '^14.17.0 || ^16.10.0' } },
+        },
+      };
+      const result = computeEngines({ packageJson, lockfile, engines: ['node'] });
+
+      expect(result.rangesSimplified).toEqual(new Map([['node', '^14.17.0 || ^16.10.0']]));
+      expect(result.ranges.get('node')?.from?.raw).toEqual('>=12.22.0');
+      expect(result.explanations.get('node')?.culprits).toEqual([
+        { path: 'node_modules/foo', range: '^14.17.0 || ^16.10.0', result: '>=14.17.0 <15.0.0-0||>=16.10.0 <17.0.0-0' },
+      ]);
+      expect(result.conflicts).toEqual([]);
+      expect(packageJson).toEqual({ engines: { node: '>=12.22.0' } });
+    });
+
+    it('should ignore packages matching names or glob patterns', () => {
+      const result = computeEngines({
+        packageJson: { engines: {} },
+        lockfile: {
+          packages: {
+            'node_modules/foo': { engines: { node: '>=18.0.0' } },
+            'node_modules/@types/bar': { engines: { node: '>=16.0.0' } },
+            'node_modules/baz': { engines: { node: '>=14.17.0' } },
+          },
+        },
+        engines: ['node'],
+        ignore: ['foo', '@types/*'],
+      });
+
+      expect(result.rangesSimplified).toEqual(new Map([['node', '>=14.17.0']]));
+    });
+
+    it('should omit dev, optional and peer packages', () => {
+      const lockfile: PackageLockJSONSchema = {
+        packages: {
+          'node_modules/vitest': { engines: { node: '>=18.0.0' }, dev: true },
+          'node_modules/both': { engines: { node: '>=17.0.0' }, devOptional: true },
+          'node_modules/fsevents': { engines: { node: '>=16.0.0' }, optional: true },
+          'node_modules/react': { engines: { node: '>=14.0.0' }, peer: true },
+          'node_modules/lodash': { engines: { node: '>=12.0.0' } },
+        },
+      };
+      const computeNode = (options: Pick<ComputeEnginesOptions, 'omit' | 'only'>) =>
+        computeEngines({ packageJson: { engines: {} }, lockfile, engines: ['node'], ...options }).rangesSimplified;
+
+      expect(computeNode({ omit: ['dev'] })).toEqual(new Map([['node', '>=17.0.0']]));
+      expect(computeNode({ omit: ['dev', 'optional'] })).toEqual(new Map([['node', '>=14.0.0']]));
+      expect(computeNode({ omit: ['dev', 'optional', 'peer'] })).toEqual(new Map([['node', '>=12.0.0']]));
+      expect(computeNode({ only: 'dev' })).toEqual(new Map([['node', '>=18.0.0']]));
+    });
+
+    it('should list ignored and overridden packages', () => {
+      const result = computeEngines({
+        packageJson: { engines: {} },
+        lockfile: {
+          packages: {
+            'node_modules/foo': { engines: { node: '>=18.0.0', npm: '>=8.0.0' } },
+            'node_modules/@types/bar': { engines: { node: '>=20.0.0' } },
+            'node_modules/baz': { engines: { node: '>=14.17.0' } },
+          },
+        },
+        engines: ['node', 'npm'],
+        ignore: ['@types/*'],
+        overrides: { foo: { node: '>=16.0.0' } },
+      });
+
+      expect(result.rangesSimplified).toEqual(
+        new Map([
+          ['node', '>=16.0.0'],
+          ['npm', '>=8.0.0'],
+        ]),
+      );
+      expect(result.ignoredPackages).toEqual([{ path: 'node_modules/@types/bar', pattern: '@types/*' }]);
+      expect(result.overriddenPackages).toEqual([
+        {
+          path: 'node_modules/foo',
+          pattern: 'foo',
+          from: { node: '>=18.0.0', npm: '>=8.0.0' },
+          to: { node: '>=16.0.0' },
+        },
+      ]);
+      expect(
+        generateAppliedAdjustmentsMessage({
+          ignoredPackages: result.ignoredPackages,
+          overriddenPackages: result.overriddenPackages,
+        }),
+      ).toEqual(
+        'Ignored packages:\n\n node_modules/@types/bar  @types/* \n\n' +
+          'Overridden engines:\n\n node_modules/foo  foo  node  >=18.0.0  →  >=16.0.0 ',
+      );
+    });
+
+    describe('should compute most restrictive range of two packages', () => {
+      const computeNodeRange = (r1: string, r2: string) =>
+        computeEngines({
+          packageJson: { engines: {} },
+          lockfile: {
+            packages: { 'node_modules/a': { engines: { node: r1 } }, 'node_modules/b': { engines: { node: r2 } } },
+          },
+          engines: ['node'],
+        });
+
+      it.each([
+        ['w/ r1 subset of r2', '^14.17.0 || ^16.10.0', '^14.0.0 || ^16.0.0', '^14.17.0 || ^16.10.0'],
+        ['w/ r2 subset of r1', '^14.0.0 || ^16.0.0', '^14.17.0 || ^16.10.0', '^14.17.0 || ^16.10.0'],
+        ['w/ r1 subset of r2 using min version', '^14.13.0 || ^16.10.0', '^14.17.0 || ^16.0.0', '^14.17.0 || ^16.10.0'],
+        [
+          'w/ r1 subset of r2 using min version & lower major',
+          '^14.13.0 || ^16.10.0',
+          '^12.22.0 || ^14.17.0 || ^16.0.0',
+          '^14.17.0 || ^16.10.0',
+        ],
+        [
+          'w/ r1 subset of r2 using min version & upper major',
+          '^12.22.0 || ^14.17.0',
+          '^14.13.0 || ^16.10.0',
+          '^14.17.0',
+        ],
+        ['w/ r2 subset of r1 using min version', '^14.17.0 || ^16.0.0', '^14.13.0 || ^16.10.0', '^14.17.0 || ^16.10.0'],
+        [
+          'w/ r2 subset of r1 using min version & lower major',
+          '^12.22.0 || ^14.17.0 || ^16.0.0',
+          '^14.13.0 || ^16.10.0',
+          '^14.17.0 || ^16.10.0',
+        ],
+        [
+          'w/ r2 subset of r1 using min version & upper major',
+          '^14.13.0 || ^16.10.0',
+          '^12.22.0 || ^14.17.0',
+          '^14.17.0',
+        ],
+        [
+          'w/ r2 subset of r1 using min version & open range',
+          '>=12.22.0',
+          '^12.13.0 || ^14.15.0 || ^16.10.0 || >=17.0.0',
+          '^12.22.0 || ^14.15.0 || ^16.10.0 || >=17.0.0',
+        ],
+        ['w/ mixed r1 r2', '^14.13.0 || ^16.10.0', '^12.22.0 || >=14.17.0', '^14.17.0 || ^16.10.0'],
+        [
+          'w/ intersection at middle range',
+          '>=14.15.0 <15.0.0-0||>=16.10.0',
+          '>=14.15.0 <15.0.0-0||>=16.0.0 <17.0.0-0||>=17.0.0 <18.0.0-0||>=18.0.0 <19.0.0-0',
+          '^14.15.0 || ^16.10.0 || ^17.0.0 || ^18.0.0',
+        ],
+      ])('%s', (_, r1, r2, expected) => {
+        const { ranges, conflicts } = computeNodeRange(r1, r2);
+
+        expect(ranges.get('node')?.to.range).toEqual(new Range(expected, rangeOptions).range);
+        expect(conflicts).toEqual([]);
+      });
+
+      it('w/ ranges not intersecting', () => {
+        expect(computeNodeRange('>=18.0.0', '^14.17.0').conflicts).toEqual([
+          {
+            engine: 'node',
+            packages: [
+              { path: 'node_modules/a', range: '>=18.0.0' },
+              { path: 'node_modules/b', range: '^14.17.0' },
+            ],
+          },
+        ]);
+      });
+    });
+
+    it('should constrain lock files without root package with package.json engines', () => {
+      const packageJson = { engines: { node: '>=18.0.0' } };
+      const packages = { 'node_modules/foo': { version: '1.0.0', engines: { node: '>=10.0.0' } } };
+      const npmLockfile: PackageLockJSONSchema = { packages: { '': packageJson, ...packages } };
+
+      expect(computeEngines({ packageJson, lockfile: { packages } }).ranges.get('node')?.to.raw).toEqual('>=18.0.0');
+      expect(computeEngines({ packageJson, lockfile: npmLockfile }).ranges.get('node')?.to.raw).toEqual('>=18.0.0');
+    });
+
+    it('should discover engine keys declared in package.json and lock file', () => {
+      const packageJson = { engines: { vscode: '^1.60.0' } };
+      const lockfile: PackageLockJSONSchema = {
+        packages: {
+          'node_modules/foo': { engines: { pnpm: '>=7.0.0', node: '>=14.17.0' } },
+          'node_modules/bar': { engines: ['bun >= 1.0.0', 'npm>=8'] },
+        },
+      };
+
+      expect(discoverEngineKeys(packageJson, lockfile)).toEqual(['node', 'npm', 'yarn', 'bun', 'pnpm', 'vscode']);
+      expect(computeEngines({ packageJson, lockfile, engines: ['bun', 'pnpm', 'npm'] }).rangesSimplified).toEqual(
+        new Map([
+          ['bun', '>=1.0.0'],
+          ['pnpm', '>=7.0.0'],
+          ['npm', '>=8.0.0'],
+        ]),
+      );
+    });
+
+    it('should compute unconstrained range of listed default engine keys', () => {
+      const { ranges } = computeEngines({
+        packageJson: { engines: {} },
+        lockfile: { packages: { 'node_modules/foo': { engines: { deno: '>=1.0.0' } } } },
+        engines: ['deno', 'yarn'],
+      });
+
+      expect([...ranges.keys()]).toEqual(['deno', 'yarn']);
+      expect(ranges.get('deno')?.to.raw).toEqual('>=1.0.0');
+      expect(ranges.get('yarn')?.to.raw).toEqual('*');
+    });
+
+    it('should throw error listing unknown engine keys', () => {
+      expect(() =>
+        computeEngines({
+          packageJson: { engines: {} },
+          lockfile: { packages: { 'node_modules/foo': { engines: { deno: '>=1.0.0' } } } },
+          engines: ['node', 'nod', 'bun'],
+        }),
+      ).toThrowError('Unknown engine key(s): nod, bun. Available engine keys: node, npm, yarn, deno.');
+    });
+
+    it('should return conflicts instead of throwing error', () => {
+      const result = computeEngines({
+        packageJson: { engines: {} },
+        lockfile: {
+          packages: {
+            'node_modules/a': { engines: { node: '>=18.0.0' } },
+            'node_modules/b': { engines: { node: '^14.17.0' } },
+          },
+        },
+        engines: ['node'],
+      });
+
+      expect(result.conflicts).toEqual([
+        {
+          engine: 'node',
+          packages: [
+            { path: 'node_modules/a', range: '>=18.0.0' },
+            { path: 'node_modules/b', range: '^14.17.0' },
+          ],
+        },
+      ]);
+    });
+
+    it('should report packages setting the conflicting bound', () => {
+      const result = computeEngines({
+        packageJson: { engines: {} },
+        lockfile: {
+          packages: {
+            'node_modules/a': { engines: { node: '<16.0.0' } },
+            'node_modules/b': { engines: { node: '>=12.0.0' } },
+            'node_modules/c': { engines: { node: '>=18.0.0' } },
+            'node_modules/d': { engines: { node: '<10.0.0' } },
+          },
+        },
+        engines: ['node'],
+      });
+
+      expect(result.conflicts).toEqual([
+        {
+          engine: 'node',
+          packages: [
+            { path: 'node_modules/a', range: '<16.0.0' },
+            { path: 'node_modules/c', range: '>=18.0.0' },
+          ],
+        },
+        {
+          engine: 'node',
+          packages: [
+            { path: 'node_modules/b', range: '>=12.0.0' },
+            { path: 'node_modules/d', range: '<10.0.0' },
+          ],
+        },
+      ]);
+    });
   });
 
   describe('should compute engine constraint', () => {
+    it('should throw error if dependency types cannot be selected from lock file', () => {
+      expect(() => validateDependencyTypesSelection({ filename: 'yarn.lock', omit: ['dev'] })).toThrowError(
+        'yarn.lock does not mark dev, optional or peer packages, omit and only are not supported.',
+      );
+      expect(() => validateDependencyTypesSelection({ filename: 'yarn.lock', only: 'dev' })).toThrowError(
+        'yarn.lock does not mark dev, optional or peer packages, omit and only are not supported.',
+      );
+      expect(() => validateDependencyTypesSelection({ filename: 'pnpm-lock.yaml', omit: ['peer'] })).toThrowError(
+        'pnpm-lock.yaml does not mark peer packages, omitting peer packages is not supported.',
+      );
+      expect(() => validateDependencyTypesSelection({ filename: 'yarn.lock', omit: [] })).not.toThrowError();
+      expect(() =>
+        validateDependencyTypesSelection({ filename: 'pnpm-lock.yaml', omit: ['dev', 'optional'], only: 'dev' }),
+      ).not.toThrowError();
+    });
+
     it('should throw error if package data not defined', () => {
       const ctx: CheckCommandContext = {
         packageObject: { filename: 'package.json', data: undefined },
@@ -400,6 +975,78 @@ describe('tasks', () => {
       }
     });
 
+    it('should throw engines conflict error & set conflicts in ctx', () => {
+      const ctx: CheckCommandContext = {
+        engines: ['node'],
+        packageObject: { filename: 'package.json', data: { engines: {} } },
+        packageLockObject: {
+          data: {
+            packages: {
+              'node_modules/a': { engines: { node: '>=18.0.0' } },
+              'node_modules/a/node_modules/b': { engines: { node: '^14.17.0' } },
+              'node_modules/c': { engines: { node: '>=16.0.0' } },
+            },
+          } as PackageLockJSONSchema,
+        },
+      } as CheckCommandContext;
+      expect(() =>
+        computeEnginesConstraints({
+          ctx,
+          task: {} as ListrTaskWrapper<CheckCommandContext, typeof ListrRenderer>,
+          parent: {} as Omit<ListrTaskWrapper<CheckCommandContext, typeof ListrRenderer>, 'skip' | 'enabled'>,
+          debug: { extend: vi.fn(() => vi.fn()) } as unknown as Debugger,
+        }),
+      ).toThrowError(EnginesConflictError);
+      expect(ctx.conflicts).toEqual([
+        {
+          engine: 'node',
+          packages: [
+            { path: 'node_modules/a', range: '>=18.0.0' },
+            { path: 'node_modules/a/node_modules/b', range: '^14.17.0' },
+          ],
+        },
+      ]);
+      expect(ctx.ranges).toEqual(new Map([['node', { from: new Range('*'), to: new Range('>=18.0.0') }]]));
+    });
+
+    it('should set explanations in ctx', () => {
+      const ctx: CheckCommandContext = {
+        engines: ['node'],
+        packageObject: { filename: 'package.json', data: { engines: {} } },
+        packageLockObject: {
+          data: {
+            packages: {
+              foo: { engines: { node: '>=12.22.0' } },
+              bar: { engines: { node: '>=a.b.c' } },
+              lorem: { engines: { node: '>=14.17.0' } },
+              ipsum: { engines: { node: '>=10.0.0' } },
+            },
+          } as PackageLockJSONSchema,
+        },
+      } as CheckCommandContext;
+      computeEnginesConstraints({
+        ctx,
+        task: {} as ListrTaskWrapper<CheckCommandContext, typeof ListrRenderer>,
+        parent: {} as Omit<ListrTaskWrapper<CheckCommandContext, typeof ListrRenderer>, 'skip' | 'enabled'>,
+        debug: { extend: vi.fn(() => vi.fn()) } as unknown as Debugger,
+      });
+      expect(ctx.explanations).toEqual(
+        new Map([
+          [
+            'node',
+            {
+              culprits: [
+                { path: 'foo', range: '>=12.22.0', result: '>=12.22.0' },
+                { path: 'lorem', range: '>=14.17.0', result: '>=14.17.0' },
+              ],
+              ignored: [{ path: 'ipsum', range: '>=10.0.0' }],
+              invalid: [{ path: 'bar', range: '>=a.b.c' }],
+            },
+          ],
+        ]),
+      );
+    });
+
     it('should set mrr in ctx using engines obj even if package data does not contain engines', () => {
       const ctx: CheckCommandContext = {
         packageObject: { filename: 'package.json', data: {} },
@@ -476,7 +1123,7 @@ describe('tasks', () => {
           debug: { extend: vi.fn(() => vi.fn()) } as unknown as Debugger,
         });
       } catch (e) {
-        expect(e).toEqual(new Error('No valid constraint key(s).'));
+        expect(e).toEqual(new Error('Unknown engine key(s): foo. Available engine keys: node, npm, yarn.'));
       }
     });
 
@@ -571,6 +1218,96 @@ describe('tasks', () => {
     });
   });
 
+  describe('should cache computed engines', () => {
+    let dir: string;
+    const createContext = (overrides: Partial<CheckCommandContext> = {}): CheckCommandContext =>
+      ({
+        path: dir,
+        workingDir: process.cwd(),
+        cache: true,
+        packageObject: { filename: 'package.json', data: { engines: {} } },
+        packageLockObject: { filename: 'package-lock.json' },
+        ...overrides,
+      } as CheckCommandContext);
+    const compute = async (ctx: CheckCommandContext): Promise<void> => {
+      const debug = Object.assign(vi.fn(), { extend: vi.fn(() => vi.fn()) }) as unknown as Debugger;
+      await loadPackageLockFile({
+        ctx,
+        task: {} as ListrTaskWrapper<CheckCommandContext, typeof ListrRenderer>,
+        parent: {} as Omit<ListrTaskWrapper<CheckCommandContext, typeof ListrRenderer>, 'skip' | 'enabled'>,
+        debug,
+      });
+      await computeEnginesConstraints({
+        ctx,
+        task: {} as ListrTaskWrapper<CheckCommandContext, typeof ListrRenderer>,
+        parent: {} as Omit<ListrTaskWrapper<CheckCommandContext, typeof ListrRenderer>, 'skip' | 'enabled'>,
+        debug,
+      });
+    };
+    const getCacheFiles = async (): Promise<string[]> =>
+      fs.readdir(join(dir, 'node_modules', '.cache', 'nce')).catch(() => []);
+
+    beforeEach(async () => {
+      dir = await fs.mkdtemp(join(tmpdir(), 'nce-'));
+      await fs.writeFile(
+        join(dir, 'package-lock.json'),
+        JSON.stringify({
+          lockfileVersion: 3,
+          packages: { '': { name: 'foo' }, 'node_modules/a': { version: '1.0.0', engines: { node: '>=16.0.0' } } },
+        }),
+        'utf8',
+      );
+    });
+
+    afterEach(async () => {
+      await fs.rm(dir, { recursive: true, force: true });
+    });
+
+    it('should read cached result without reading lock file', async () => {
+      await fs.mkdir(join(dir, 'node_modules'));
+      const missCtx = createContext();
+      await compute(missCtx);
+      expect(missCtx.packageLockObject.data).toBeDefined();
+      expect(await getCacheFiles()).toHaveLength(1);
+
+      const hitCtx = createContext();
+      await compute(hitCtx);
+      expect(hitCtx.packageLockObject.data).toBeUndefined();
+      expect(hitCtx.packageLockObject.relativePath).toEqual(missCtx.packageLockObject.relativePath);
+      expect(hitCtx.ranges?.get('node')?.to.raw).toEqual('>=16.0.0');
+    });
+
+    it('should not write cache without node_modules', async () => {
+      const ctx = createContext();
+      await compute(ctx);
+      expect(ctx.ranges?.get('node')?.to.raw).toEqual('>=16.0.0');
+      expect(await fs.readdir(dir)).toEqual(['package-lock.json']);
+    });
+
+    it('should not write cache in dry run', async () => {
+      await fs.mkdir(join(dir, 'node_modules'));
+      await compute(createContext({ dryRun: true }));
+      expect(await getCacheFiles()).toEqual([]);
+    });
+
+    it('should write cache with --check', async () => {
+      await fs.mkdir(join(dir, 'node_modules'));
+      await compute(createContext({ check: true }));
+      expect(await getCacheFiles()).toHaveLength(1);
+    });
+
+    it('should prune cached results of previous lock files', async () => {
+      await fs.mkdir(join(dir, 'node_modules'));
+      await compute(createContext());
+      await compute(createContext({ engines: ['npm'] }));
+      expect(await getCacheFiles()).toHaveLength(2);
+
+      await fs.writeFile(join(dir, 'package-lock.json'), JSON.stringify({ lockfileVersion: 3, packages: {} }), 'utf8');
+      await compute(createContext());
+      expect(await getCacheFiles()).toHaveLength(1);
+    });
+  });
+
   describe('should load package lock file', () => {
     let getJsonSpy: SpyInstance;
 
@@ -607,7 +1344,7 @@ describe('tasks', () => {
       } as CheckCommandContext;
       getJsonSpy.mockReturnValueOnce(packageLockJsonSchema);
       getJsonSpy.mockReturnValueOnce(Promise.resolve(null));
-      expect.assertions(1);
+      expect.assertions(2);
       try {
         await loadPackageLockFile({
           ctx,
@@ -617,10 +1354,11 @@ describe('tasks', () => {
         });
       } catch (e) {
         expect(e).toEqual(new Error('package-lock.json is not defined.'));
+        expect(e).toBeInstanceOf(MissingFileError);
       }
     });
 
-    it('should throw error if json does not contain packages property', async () => {
+    it('should throw error if json does not contain packages nor dependencies property', async () => {
       const ctx: CheckCommandContext = {
         path: '',
         workingDir: 'foo',
@@ -628,6 +1366,7 @@ describe('tasks', () => {
       } as CheckCommandContext;
       getJsonSpy.mockReturnValueOnce(packageLockJsonSchema);
       getJsonSpy.mockReturnValueOnce(Promise.resolve({}));
+      vi.spyOn(utils, 'getText').mockReturnValueOnce(Promise.resolve('{}\n'));
       expect.assertions(1);
       try {
         await loadPackageLockFile({
@@ -637,7 +1376,15 @@ describe('tasks', () => {
           debug: vi.fn() as unknown as Debugger,
         });
       } catch (e) {
-        expect(e).toEqual(new Error(`must have required property 'packages'`));
+        expect(e).toEqual(
+          new Error(
+            [
+              `package-lock.json:1:1 must have required property 'packages' at (root)`,
+              `package-lock.json:1:1 must have required property 'dependencies' at (root)`,
+              `package-lock.json:1:1 must match a schema in anyOf at (root)`,
+            ].join('\n'),
+          ),
+        );
       }
     });
 
@@ -649,7 +1396,8 @@ describe('tasks', () => {
       } as CheckCommandContext;
       getJsonSpy.mockReturnValueOnce(packageLockJsonSchema);
       getJsonSpy.mockReturnValueOnce(Promise.resolve({ packages: undefined }));
-      expect.assertions(1);
+      vi.spyOn(utils, 'getText').mockRejectedValueOnce('Oops');
+      expect.assertions(3);
       try {
         await loadPackageLockFile({
           ctx,
@@ -658,7 +1406,21 @@ describe('tasks', () => {
           debug: vi.fn() as unknown as Debugger,
         });
       } catch (e) {
-        expect(e).toEqual(new Error(`must have required property 'packages'`));
+        expect(e).toEqual(
+          new Error(
+            [
+              `package-lock.json must have required property 'packages' at (root)`,
+              `package-lock.json must have required property 'dependencies' at (root)`,
+              `package-lock.json must match a schema in anyOf at (root)`,
+            ].join('\n'),
+          ),
+        );
+        expect((e as SchemaValidationError).diagnostics[0]).toEqual({
+          path: 'package-lock.json',
+          instancePath: '',
+          message: `must have required property 'packages'`,
+        });
+        expect(e).toBeInstanceOf(SchemaValidationError);
       }
     });
 
@@ -692,6 +1454,160 @@ describe('tasks', () => {
     });
   });
 
+  it('should set package lock object from legacy lockfileVersion 1 dependencies', async () => {
+    const ctx: CheckCommandContext = {
+      path: '',
+      workingDir: 'bar',
+      packageLockObject: { filename: 'package-lock.json' },
+    } as CheckCommandContext;
+    vi.spyOn(utils, 'getJson')
+      .mockReturnValueOnce(packageLockJsonSchema)
+      .mockReturnValueOnce(Promise.resolve({ lockfileVersion: 1, dependencies: { foo: { version: '1.0.0' } } }))
+      .mockReturnValueOnce(Promise.resolve({ name: 'foo', version: '1.0.0', engines: { node: '>=14.17.0' } }));
+    vi.spyOn(utils, 'listDirectories').mockImplementation(async path =>
+      path.endsWith(`foo${sep}node_modules`) ? [] : ['foo'],
+    );
+    await loadPackageLockFile({
+      ctx,
+      task: {} as ListrTaskWrapper<CheckCommandContext, typeof ListrRenderer>,
+      parent: {} as Omit<ListrTaskWrapper<CheckCommandContext, typeof ListrRenderer>, 'skip' | 'enabled'>,
+      debug: vi.fn() as unknown as Debugger,
+    });
+    expect(ctx.packageLockObject).toEqual({
+      filename: 'package-lock.json',
+      relativePath: 'package-lock.json',
+      data: { packages: { 'node_modules/foo': { engines: { node: '>=14.17.0' }, version: '1.0.0' } } },
+    });
+  });
+
+  describe('should detect lock file', () => {
+    it('should return first existing lock file', async () => {
+      vi.spyOn(utils, 'fileExists').mockImplementation(async path => path.endsWith('yarn.lock'));
+      expect(await detectLockFilename({ path: 'foo', workingDir: '' })).toEqual('yarn.lock');
+    });
+
+    it('should fallback to package-lock.json', async () => {
+      vi.spyOn(utils, 'fileExists').mockReturnValue(Promise.resolve(false));
+      expect(await detectLockFilename({ path: 'foo', workingDir: '' })).toEqual('package-lock.json');
+    });
+  });
+
+  describe('should load yarn lock file', () => {
+    it('should throw error if read text throw error', async () => {
+      const ctx: CheckCommandContext = {
+        path: '',
+        workingDir: 'foo',
+        packageLockObject: { filename: 'yarn.lock' },
+      } as CheckCommandContext;
+      vi.spyOn(utils, 'getText').mockRejectedValueOnce('Oops');
+      expect.assertions(1);
+      try {
+        await loadPackageLockFile({
+          ctx,
+          task: {} as ListrTaskWrapper<CheckCommandContext, typeof ListrRenderer>,
+          parent: {} as Omit<ListrTaskWrapper<CheckCommandContext, typeof ListrRenderer>, 'skip' | 'enabled'>,
+          debug: vi.fn() as unknown as Debugger,
+        });
+      } catch (e) {
+        expect(e).toEqual(new Error('yarn.lock is not defined.'));
+      }
+    });
+
+    it('should set package lock object using installed manifests', async () => {
+      const ctx: CheckCommandContext = {
+        path: '',
+        workingDir: 'bar',
+        packageLockObject: { filename: 'yarn.lock' },
+      } as CheckCommandContext;
+      vi.spyOn(utils, 'getText').mockReturnValueOnce(Promise.resolve('foo@^1.0.0:\n  version "1.0.0"\n'));
+      vi.spyOn(utils, 'listDirectories').mockImplementation(async path =>
+        path.endsWith(`foo${sep}node_modules`) ? [] : ['foo'],
+      );
+      vi.spyOn(utils, 'getJson').mockReturnValueOnce(
+        Promise.resolve({ name: 'foo', version: '1.0.0', engines: { node: '>=14.17.0' } }),
+      );
+      await loadPackageLockFile({
+        ctx,
+        task: {} as ListrTaskWrapper<CheckCommandContext, typeof ListrRenderer>,
+        parent: {} as Omit<ListrTaskWrapper<CheckCommandContext, typeof ListrRenderer>, 'skip' | 'enabled'>,
+        debug: vi.fn() as unknown as Debugger,
+      });
+      expect(ctx.packageLockObject).toEqual({
+        filename: 'yarn.lock',
+        relativePath: 'yarn.lock',
+        data: { packages: { 'node_modules/foo': { engines: { node: '>=14.17.0' } } } },
+      });
+    });
+  });
+
+  describe('should load pnpm lock file', () => {
+    let getJsonSpy: SpyInstance;
+    let getYamlSpy: SpyInstance;
+
+    beforeEach(() => {
+      getJsonSpy = vi.spyOn(utils, 'getJson');
+      getYamlSpy = vi.spyOn(utils, 'getYaml');
+    });
+
+    it('should throw error if yaml does not contain lockfileVersion property', async () => {
+      const ctx: CheckCommandContext = {
+        path: '',
+        workingDir: 'foo',
+        packageLockObject: { filename: 'pnpm-lock.yaml' },
+      } as CheckCommandContext;
+      getJsonSpy.mockReturnValueOnce(pnpmLockYamlSchema);
+      getYamlSpy.mockReturnValueOnce(Promise.resolve({ packages: {} }));
+      vi.spyOn(utils, 'getText').mockReturnValueOnce(Promise.resolve('packages: {}\n'));
+      expect.assertions(1);
+      try {
+        await loadPackageLockFile({
+          ctx,
+          task: {} as ListrTaskWrapper<CheckCommandContext, typeof ListrRenderer>,
+          parent: {} as Omit<ListrTaskWrapper<CheckCommandContext, typeof ListrRenderer>, 'skip' | 'enabled'>,
+          debug: vi.fn() as unknown as Debugger,
+        });
+      } catch (e) {
+        expect(e).toEqual(new Error(`pnpm-lock.yaml:1:1 must have required property 'lockfileVersion' at (root)`));
+      }
+    });
+
+    it('should set package lock object from pnpm packages', async () => {
+      const ctx: CheckCommandContext = {
+        path: '',
+        workingDir: 'foo',
+        packageLockObject: { filename: 'pnpm-lock.yaml' },
+      } as CheckCommandContext;
+      getJsonSpy.mockReturnValueOnce(pnpmLockYamlSchema);
+      getYamlSpy.mockReturnValueOnce(
+        Promise.resolve({ lockfileVersion: '6.0', packages: { '/foo@1.0.0': { engines: { node: '>=14.17.0' } } } }),
+      );
+      await loadPackageLockFile({
+        ctx,
+        task: {} as ListrTaskWrapper<CheckCommandContext, typeof ListrRenderer>,
+        parent: {} as Omit<ListrTaskWrapper<CheckCommandContext, typeof ListrRenderer>, 'skip' | 'enabled'>,
+        debug: vi.fn() as unknown as Debugger,
+      });
+      expect(ctx.packageLockObject).toEqual({
+        filename: 'pnpm-lock.yaml',
+        relativePath: 'pnpm-lock.yaml',
+        data: { packages: { 'foo@1.0.0': { engines: { node: '>=14.17.0' } } } },
+      });
+    });
+  });
+
+  describe('should read project files', () => {
+    it('should read package.json & lock file without task context', async () => {
+      const options = { path: 'examples', workingDir: process.cwd(), debug: vi.fn() as unknown as Debugger };
+      const packageJson = await readPackageFile({ ...options, filename: 'package.json' });
+      const lockfile = await readPackageLockFile({ ...options, filename: 'package-lock.json' });
+
+      expect(packageJson.relativePath).toEqual(join('examples', 'package.json'));
+      expect(packageJson.data.name).toEqual('example');
+      expect(lockfile.relativePath).toEqual(join('examples', 'package-lock.json'));
+      expect(Object.keys(lockfile.data.packages).length).toBeGreaterThan(0);
+    });
+  });
+
   describe('should load package file', () => {
     let getJsonSpy: SpyInstance;
 
@@ -792,11 +1708,269 @@ describe('tasks', () => {
     });
   });
 
+  describe('should check engines are up-to-date', () => {
+    it('should not throw error if engines are up-to-date', () => {
+      const ctx: CheckCommandContext = {
+        packageObject: { filename: 'package.json', relativePath: 'package.json' },
+        rangesSimplified: new Map(),
+      } as CheckCommandContext;
+      expect(() =>
+        checkEnginesUpToDate({
+          ctx,
+          task: {} as ListrTaskWrapper<CheckCommandContext, typeof ListrRenderer>,
+          parent: {} as Omit<ListrTaskWrapper<CheckCommandContext, typeof ListrRenderer>, 'skip' | 'enabled'>,
+          debug: vi.fn() as unknown as Debugger,
+        }),
+      ).not.toThrow();
+    });
+
+    it('should throw error listing outdated package files', () => {
+      const ctx: CheckCommandContext = {
+        packageObject: { filename: 'package.json', relativePath: 'package.json' },
+        rangesSimplified: new Map(),
+        workspaceContexts: [
+          {
+            packageObject: { filename: join('packages', 'a', 'package.json') },
+            rangesSimplified: new Map([['node', '>=14.17.0']]),
+          },
+        ],
+      } as CheckCommandContext;
+      expect(() =>
+        checkEnginesUpToDate({
+          ctx,
+          task: {} as ListrTaskWrapper<CheckCommandContext, typeof ListrRenderer>,
+          parent: {} as Omit<ListrTaskWrapper<CheckCommandContext, typeof ListrRenderer>, 'skip' | 'enabled'>,
+          debug: vi.fn() as unknown as Debugger,
+        }),
+      ).toThrowError(new OutdatedEnginesError([join('packages', 'a', 'package.json')]));
+    });
+
+    it('should throw error listing files of unsatisfied version pins', () => {
+      const ctx: CheckCommandContext = {
+        packageObject: { filename: 'package.json', relativePath: 'package.json' },
+        rangesSimplified: new Map(),
+        versionPins: [
+          {
+            file: '.nvmrc',
+            source: '.nvmrc',
+            engine: 'node',
+            version: '12',
+            status: 'unsatisfied',
+            proposed: '14.17.0',
+          },
+          { file: 'package.json', source: 'volta', engine: 'node', version: '16.0.0', status: 'satisfied' },
+        ],
+      } as CheckCommandContext;
+      expect(() =>
+        checkEnginesUpToDate({
+          ctx,
+          task: {} as ListrTaskWrapper<CheckCommandContext, typeof ListrRenderer>,
+          parent: {} as Omit<ListrTaskWrapper<CheckCommandContext, typeof ListrRenderer>, 'skip' | 'enabled'>,
+          debug: vi.fn() as unknown as Debugger,
+        }),
+      ).toThrowError(new OutdatedEnginesError(['.nvmrc']));
+    });
+  });
+
+  describe('should check runtime versions', () => {
+    const packageLockObject = {
+      filename: 'package-lock.json',
+      data: {
+        packages: {
+          '': { engines: { node: '>=14' } },
+          'node_modules/foo': { engines: { node: '>=18', npm: '>=8' } },
+          'node_modules/bar': { engines: { node: '>=12' } },
+        },
+      },
+    } as FileObject<PackageLockJSONSchema>;
+
+    it('should list packages not satisfied by runtime versions', () => {
+      expect(
+        getUnsatisfiedPackages(
+          Object.entries(packageLockObject.data?.packages || {}),
+          new Map([
+            ['node', '16.20.0'],
+            ['npm', '8.19.4'],
+          ]),
+        ),
+      ).toEqual([{ path: 'node_modules/foo', range: '>=18', engine: 'node', version: '16.20.0' }]);
+    });
+
+    it('should throw error if runtime does not satisfy engines', async () => {
+      vi.spyOn(runtime, 'getRuntimeVersions').mockReturnValueOnce(new Map([['node', '16.20.0']]));
+      vi.spyOn(runtime, 'getCommandVersion').mockResolvedValueOnce(undefined);
+      const ctx: CheckCommandContext = {
+        packageLockObject,
+        ignore: [],
+        overrides: {},
+        omit: [],
+        ranges: new Map([
+          ['node', { from: new Range('>=14'), to: new Range('>=18.0.0') }],
+          ['npm', { from: undefined, to: new Range('>=8.0.0') }],
+        ]),
+      } as unknown as CheckCommandContext;
+      const parent = { title: '' } as Omit<
+        ListrTaskWrapper<CheckCommandContext, typeof ListrRenderer>,
+        'skip' | 'enabled'
+      >;
+
+      await expect(
+        checkRuntimeVersions({
+          ctx,
+          task: {} as ListrTaskWrapper<CheckCommandContext, typeof ListrRenderer>,
+          parent,
+          debug: vi.fn() as unknown as Debugger,
+        }),
+      ).rejects.toThrowError(new UnsatisfiedRuntimeError(['node']));
+      expect(ctx.runtimeVersions).toEqual([
+        {
+          engine: 'node',
+          version: '16.20.0',
+          declared: '>=14.0.0',
+          computed: '>=18.0.0',
+          satisfiesDeclared: true,
+          satisfiesComputed: false,
+        },
+      ]);
+      expect(ctx.unsatisfiedPackages).toEqual([
+        { path: 'node_modules/foo', range: '>=18', engine: 'node', version: '16.20.0' },
+      ]);
+      expect(parent.title).toContain('Packages not satisfied by the current runtime:');
+      expect(ctx.skippedRuntimes).toEqual(['npm']);
+      expect(parent.title).toContain('Skipped npm: no version detected from npm_config_user_agent or --version.');
+    });
+
+    it('should fall back to --version of package managers missing from user agent', async () => {
+      vi.spyOn(runtime, 'getRuntimeVersions').mockReturnValueOnce(new Map([['node', '18.17.0']]));
+      const getCommandVersionSpy = vi.spyOn(runtime, 'getCommandVersion').mockResolvedValueOnce('8.19.4');
+      const ctx: CheckCommandContext = {
+        packageLockObject,
+        ignore: [],
+        overrides: {},
+        omit: [],
+        ranges: new Map([
+          ['node', { from: new Range('>=14'), to: new Range('>=18.0.0') }],
+          ['npm', { from: undefined, to: new Range('>=8.0.0') }],
+          ['vscode', { from: undefined, to: new Range('*') }],
+        ]),
+      } as unknown as CheckCommandContext;
+
+      await checkRuntimeVersions({
+        ctx,
+        task: {} as ListrTaskWrapper<CheckCommandContext, typeof ListrRenderer>,
+        parent: { title: '' } as Omit<ListrTaskWrapper<CheckCommandContext, typeof ListrRenderer>, 'skip' | 'enabled'>,
+        debug: vi.fn() as unknown as Debugger,
+      });
+
+      expect(getCommandVersionSpy).toHaveBeenCalledTimes(1);
+      expect(getCommandVersionSpy).toHaveBeenCalledWith('npm');
+      expect(ctx.runtimeVersions?.map(({ engine, version }) => `${engine}@${version}`)).toEqual([
+        'node@18.17.0',
+        'npm@8.19.4',
+      ]);
+      expect(ctx.skippedRuntimes).toEqual(['vscode']);
+    });
+  });
+
+  describe('should update version pins', () => {
+    it('should write version pin files and volta pins', async () => {
+      vi.spyOn(utils, 'getText').mockResolvedValueOnce('v12.22.0\n');
+      const writeTextSpy = vi.spyOn(utils, 'writeText').mockResolvedValueOnce();
+      const versionPins: VersionPinCheck[] = [
+        {
+          file: '.nvmrc',
+          source: '.nvmrc',
+          engine: 'node',
+          version: 'v12.22.0',
+          status: 'unsatisfied',
+          proposed: '14.17.0',
+        },
+        {
+          file: 'package.json',
+          source: 'volta',
+          engine: 'node',
+          version: '12.22.0',
+          status: 'unsatisfied',
+          proposed: '14.17.0',
+        },
+        { file: 'package.json', source: 'volta', engine: 'yarn', version: '1.22.19', status: 'satisfied' },
+      ];
+      const packageObject: FileObject<PackageJSONSchema> = {
+        filename: 'package.json',
+        data: { engines: {}, volta: { node: '12.22.0', yarn: '1.22.19' } },
+      };
+      const ctx: CheckCommandContext = { packageObject, versionPins } as CheckCommandContext;
+      await updateVersionPins({
+        ctx,
+        task: {} as ListrTaskWrapper<CheckCommandContext, typeof ListrRenderer>,
+        parent: {} as Omit<ListrTaskWrapper<CheckCommandContext, typeof ListrRenderer>, 'skip' | 'enabled'>,
+        debug: vi.fn() as unknown as Debugger,
+      });
+      expect(writeTextSpy).toHaveBeenCalledTimes(1);
+      expect(writeTextSpy).toHaveBeenCalledWith('.nvmrc', 'v14.17.0\n');
+      expect(ctx.packageObject.data?.volta).toEqual({ node: '14.17.0', yarn: '1.22.19' });
+    });
+
+    it('should write volta pins of package.json file', async () => {
+      const content = `{\n  "name": "foo",\n  "engines": { "node": ">=12.22.0" },\n  "volta": { "node": "12.22.0", "yarn": "1.22.19" }\n}\n`;
+      vi.spyOn(utils, 'getText').mockResolvedValueOnce(content);
+      const writeTextSpy = vi.spyOn(utils, 'writeText').mockResolvedValueOnce();
+      const ctx: CheckCommandContext = {
+        packageObject: {
+          filename: 'package.json',
+          relativePath: 'package.json',
+          data: JSON.parse(content) as PackageJSONSchema,
+        },
+        versionPins: [
+          {
+            file: 'package.json',
+            source: 'volta',
+            engine: 'node',
+            version: '12.22.0',
+            status: 'unsatisfied',
+            proposed: '14.17.0',
+          },
+        ],
+        rangesSimplified: new Map([['node', '>=14.17.0']]),
+      } as CheckCommandContext;
+      const args = {
+        ctx,
+        task: {} as ListrTaskWrapper<CheckCommandContext, typeof ListrRenderer>,
+        parent: {} as Omit<ListrTaskWrapper<CheckCommandContext, typeof ListrRenderer>, 'skip' | 'enabled'>,
+        debug: vi.fn() as unknown as Debugger,
+      };
+      await updateVersionPins(args);
+      await updatePackageJson(args);
+      expect(writeTextSpy).toHaveBeenCalledWith(
+        'package.json',
+        `{\n  "name": "foo",\n  "engines": {\n    "node": ">=14.17.0"\n  },\n  "volta": {\n    "node": "14.17.0",\n    "yarn": "1.22.19"\n  }\n}\n`,
+      );
+    });
+  });
+
+  describe('should write patch file', () => {
+    it('should write diffs of package.json files', async () => {
+      const writeTextSpy = vi.spyOn(utils, 'writeText').mockResolvedValueOnce();
+      const ctx: CheckCommandContext = {
+        patchFile: 'nce.patch',
+        diff: 'foo\n',
+        workspaceContexts: [{ diff: undefined }, { diff: 'bar\n' }],
+      } as CheckCommandContext;
+      await writePatchFile({
+        ctx,
+        task: {} as ListrTaskWrapper<CheckCommandContext, typeof ListrRenderer>,
+        parent: {} as Omit<ListrTaskWrapper<CheckCommandContext, typeof ListrRenderer>, 'skip' | 'enabled'>,
+        debug: vi.fn() as unknown as Debugger,
+      });
+      expect(writeTextSpy).toHaveBeenCalledWith('nce.patch', 'foo\nbar\n');
+    });
+  });
+
   describe('should update package.json file', () => {
-    let writeJsonSpy: SpyInstance;
+    let writeTextSpy: SpyInstance;
 
     beforeEach(() => {
-      writeJsonSpy = vi.spyOn(utils, 'writeJson').mockReturnValueOnce(Promise.resolve());
+      writeTextSpy = vi.spyOn(utils, 'writeText').mockReturnValueOnce(Promise.resolve());
     });
 
     it('should throw error if simplifiedComputedRange is undefined', async () => {
@@ -871,14 +2045,119 @@ describe('tasks', () => {
         parent: {} as Omit<ListrTaskWrapper<CheckCommandContext, typeof ListrRenderer>, 'skip' | 'enabled'>,
         debug: vi.fn() as unknown as Debugger,
       });
-      expect(writeJsonSpy).toHaveBeenCalledWith(
-        expect.any(String),
-        expect.objectContaining({
-          engines: {
-            node: '^14.17.0',
-          },
-        }),
+      expect(writeTextSpy).toHaveBeenCalledWith(
+        'foo/package.json',
+        '{\n  "engines": {\n    "node": "^14.17.0"\n  }\n}',
+      );
+    });
+
+    it('should write json keeping key order & format', async () => {
+      vi.spyOn(utils, 'getText').mockResolvedValueOnce('{\r\n\t"version": "1.0.0",\r\n\t"name": "foo"\r\n}\r\n');
+      const ctx: CheckCommandContext = {
+        rangesSimplified: new Map([['node', '^14.17.0']]),
+        packageObject: {
+          filename: 'package.json',
+          relativePath: 'foo/package.json',
+          data: { version: '1.0.0', name: 'foo' },
+        },
+      } as CheckCommandContext;
+      await updatePackageJson({
+        ctx,
+        task: {} as ListrTaskWrapper<CheckCommandContext, typeof ListrRenderer>,
+        parent: {} as Omit<ListrTaskWrapper<CheckCommandContext, typeof ListrRenderer>, 'skip' | 'enabled'>,
+        debug: vi.fn() as unknown as Debugger,
+      });
+      expect(writeTextSpy).toHaveBeenCalledWith(
+        'foo/package.json',
+        '{\r\n\t"version": "1.0.0",\r\n\t"name": "foo",\r\n\t"engines": {\r\n\t\t"node": "^14.17.0"\r\n\t}\r\n}\r\n',
+      );
+    });
+
+    it('should only replace engines keeping inline formatting of other properties', async () => {
+      const content =
+        '{\n  "name": "foo",\n  "engines": { "node": ">=12" },\n  "dependencies": {"a": "1.0.0"}, "private": true\n}\n';
+      vi.spyOn(utils, 'getText').mockResolvedValueOnce(content);
+      const ctx: CheckCommandContext = {
+        dryRun: true,
+        rangesSimplified: new Map([['node', '^14.17.0']]),
+        packageObject: {
+          filename: 'package.json',
+          relativePath: 'foo/package.json',
+          data: { name: 'foo' },
+        },
+      } as CheckCommandContext;
+      await updatePackageJson({
+        ctx,
+        task: {} as ListrTaskWrapper<CheckCommandContext, typeof ListrRenderer>,
+        parent: { title: '' } as Omit<ListrTaskWrapper<CheckCommandContext, typeof ListrRenderer>, 'skip' | 'enabled'>,
+        debug: vi.fn() as unknown as Debugger,
+      });
+      const changedLines = (ctx.diff || '').split('\n').filter(line => /^[-+][^-+]/.test(line));
+      expect(changedLines).toEqual([
+        '-  "engines": { "node": ">=12" },',
+        '+  "engines": {',
+        '+    "node": "^14.17.0"',
+        '+  },',
+      ]);
+      expect(ctx.diff).toContain(' "dependencies": {"a": "1.0.0"}, "private": true');
+    });
+
+    it('should set diff instead of writing json w/ dry run', async () => {
+      vi.spyOn(utils, 'getText').mockResolvedValueOnce('{\n  "name": "foo"\n}\n');
+      const ctx: CheckCommandContext = {
+        dryRun: true,
+        rangesSimplified: new Map([['node', '^14.17.0']]),
+        packageObject: {
+          filename: 'package.json',
+          relativePath: 'foo/package.json',
+          data: { name: 'foo' },
+        },
+      } as CheckCommandContext;
+      const parent = { title: 'Computed engines range constraints' } as Omit<
+        ListrTaskWrapper<CheckCommandContext, typeof ListrRenderer>,
+        'skip' | 'enabled'
+      >;
+      await updatePackageJson({
+        ctx,
+        task: {} as ListrTaskWrapper<CheckCommandContext, typeof ListrRenderer>,
+        parent,
+        debug: vi.fn() as unknown as Debugger,
+      });
+      expect(writeTextSpy).not.toHaveBeenCalled();
+      expect(ctx.diff).toEqual(
+        '===================================================================\n' +
+          '--- a/foo/package.json\n' +
+          '+++ b/foo/package.json\n' +
+          '@@ -1,3 +1,6 @@\n' +
+          ' {\n' +
+          '-  "name": "foo"\n' +
+          '+  "name": "foo",\n' +
+          '+  "engines": {\n' +
+          '+    "node": "^14.17.0"\n' +
+          '+  }\n' +
+          ' }\n',
       );
+      expect(parent.title).toEqual(`Computed engines range constraints\n\n${colorizeDiff(ctx.diff as string)}`);
+    });
+
+    it('should write sorted json w/ sort', async () => {
+      const ctx: CheckCommandContext = {
+        sort: true,
+        rangesSimplified: new Map([['node', '^14.17.0']]),
+        packageObject: {
+          filename: 'package.json',
+          relativePath: 'foo/package.json',
+          data: { version: '1.0.0', name: 'foo' },
+        },
+      } as CheckCommandContext;
+      await updatePackageJson({
+        ctx,
+        task: {} as ListrTaskWrapper<CheckCommandContext, typeof ListrRenderer>,
+        parent: {} as Omit<ListrTaskWrapper<CheckCommandContext, typeof ListrRenderer>, 'skip' | 'enabled'>,
+        debug: vi.fn() as unknown as Debugger,
+      });
+      const [, content] = writeTextSpy.mock.calls[0] || [];
+      expect(Object.keys(JSON.parse(content))).toEqual(['name', 'version', 'engines']);
     });
   });
 
@@ -907,6 +2186,21 @@ describe('tasks', () => {
       expect(generateUpdateCommandFromContext(context)).toEqual(expected);
     });
 
+    it('w/ ignored packages & omitted package types', () => {
+      const context: CheckCommandContext = {
+        ignore: ['foo', '@types/*'],
+        omit: ['dev', 'peer'],
+      } as CheckCommandContext;
+      const expected: string = "nce --ignore foo --ignore '@types/*' --omit dev,peer -u";
+      expect(generateUpdateCommandFromContext(context)).toEqual(expected);
+    });
+
+    it('w/ workspaces', () => {
+      const context: CheckCommandContext = { workspaces: true } as CheckCommandContext;
+      const expected: string = 'nce -w -u';
+      expect(generateUpdateCommandFromContext(context)).toEqual(expected);
+    });
+
     it('w/ quiet mode', () => {
       const context: CheckCommandContext = { quiet: true } as CheckCommandContext;
       const expected: string = 'nce -q -u';
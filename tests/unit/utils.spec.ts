@@ -2,7 +2,19 @@ import fs from 'node:fs/promises';
 import nodePath from 'node:path';
 import { describe, expect, it, vi } from 'vitest';
 
-import { getJson, getRelativePath, isAbsolutePath, joinPath, writeJson } from '../../lib/utils.js';
+import {
+  detectJSONFormat,
+  fileExists,
+  getJson,
+  getRelativePath,
+  getText,
+  getYaml,
+  isAbsolutePath,
+  joinPath,
+  listDirectories,
+  replaceJsonProperty,
+  writeJson,
+} from '../../lib/utils.js';
 
 describe('utils', () => {
   it('should return relative path based on cwd from absolute', () => {
@@ -56,4 +68,52 @@ describe('utils', () => {
     writeJson('/path/to', { foo: 'bar' });
     expect(spy).toHaveBeenCalledWith('/path/to', JSON.stringify({ foo: 'bar' }, null, 2), 'utf8');
   });
+
+  it('should call writeFile function from fs with json format', () => {
+    const spy = vi.spyOn(fs, 'writeFile').mockReturnValue(Promise.resolve());
+    writeJson('/path/to', { foo: 'bar' }, { indent: '\t', eol: '\r\n', trailingNewline: true });
+    expect(spy).toHaveBeenCalledWith('/path/to', '{\r\n\t"foo": "bar"\r\n}\r\n', 'utf8');
+  });
+
+  it('should detect json format', () => {
+    expect(detectJSONFormat('{\n    "foo": "bar"\n}\n')).toEqual({ indent: '    ', eol: '\n', trailingNewline: true });
+    expect(detectJSONFormat('{\r\n\t"foo": "bar"\r\n}')).toEqual({ indent: '\t', eol: '\r\n', trailingNewline: false });
+    expect(detectJSONFormat('')).toEqual({ indent: '  ', eol: '\n', trailingNewline: false });
+  });
+
+  it('should call readFile function from fs to get text', () => {
+    const spy = vi.spyOn(fs, 'readFile').mockReturnValue(Promise.resolve('foo'));
+    getText('/path/to');
+    expect(spy).toHaveBeenCalledWith('/path/to', 'utf8');
+  });
+
+  it('should return false if file does not exist', async () => {
+    vi.spyOn(fs, 'stat').mockRejectedValueOnce(new Error('ENOENT'));
+    expect(await fileExists('/path/to')).toEqual(false);
+  });
+
+  it('should return empty list if directory does not exist', async () => {
+    vi.spyOn(fs, 'readdir').mockRejectedValueOnce(new Error('ENOENT'));
+    expect(await listDirectories('/path/to')).toEqual([]);
+  });
+
+  it('should parse yaml read using readFile function from fs', async () => {
+    const spy = vi.spyOn(fs, 'readFile').mockReturnValue(Promise.resolve('foo: bar\n'));
+    expect(await getYaml('/path/to')).toEqual({ foo: 'bar' });
+    expect(spy).toHaveBeenCalledWith('/path/to', 'utf8');
+  });
+
+  it('should replace top-level JSON property keeping other bytes', () => {
+    const format = { indent: '  ', eol: '\n', trailingNewline: true };
+    const text = '{\n  "name": "foo",  "engines": {"node": ">=12"},\n  "private": true\n}\n';
+
+    expect(replaceJsonProperty(text, 'engines', { node: '>=14' }, format)).toEqual(
+      '{\n  "name": "foo",  "engines": {\n    "node": ">=14"\n  },\n  "private": true\n}\n',
+    );
+    expect(replaceJsonProperty('{\n  "name": "foo"\n}\n', 'engines', { node: '>=14' }, format)).toEqual(
+      '{\n  "name": "foo",\n  "engines": {\n    "node": ">=14"\n  }\n}\n',
+    );
+    expect(replaceJsonProperty('', 'engines', {}, format)).toBeUndefined();
+    expect(replaceJsonProperty('{}', 'engines', {}, format)).toBeUndefined();
+  });
 });
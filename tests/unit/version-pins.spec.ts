@@ -0,0 +1,134 @@
+import fs from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { Range } from 'semver';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+
+import type { EngineConstraintChange, EngineConstraintKey, VersionPin } from '../../lib/types.js';
+import {
+  getVersionPinChecks,
+  getVersionPinStatus,
+  parseSelectedVersionPins,
+  parseToolVersions,
+  parseVersionPinFile,
+  readVersionPins,
+  replaceVersionPin,
+} from '../../lib/version-pins.js';
+
+describe('version-pins', () => {
+  describe('parse', () => {
+    it('should parse first non-comment line of version pin file', () => {
+      expect(parseVersionPinFile('# node version\n\nv18.17.0\n')).toBe('v18.17.0');
+      expect(parseVersionPinFile('\n')).toBeUndefined();
+    });
+
+    it('should parse .tool-versions file', () => {
+      expect(parseToolVersions('nodejs 18.17.0 16.20.0\n# comment\nyarn   1.22.19 # pinned\npython\n')).toEqual([
+        { engine: 'node', version: '18.17.0' },
+        { engine: 'yarn', version: '1.22.19' },
+      ]);
+    });
+
+    it('should parse selected version pins', () => {
+      expect(parseSelectedVersionPins(['node@v18.17.0', 'npm@9.8.1'])).toEqual({ node: '18.17.0', npm: '9.8.1' });
+      expect(() => parseSelectedVersionPins(['node'])).toThrowError(
+        'Invalid version pin node, expected <engine>@<version>, e.g. node@18.17.0.',
+      );
+      expect(() => parseSelectedVersionPins(['node@lts'])).toThrowError();
+    });
+  });
+
+  describe('readVersionPins', () => {
+    let dir: string;
+
+    beforeEach(async () => {
+      dir = await fs.mkdtemp(join(tmpdir(), 'nce-'));
+    });
+
+    afterEach(async () => {
+      await fs.rm(dir, { recursive: true, force: true });
+    });
+
+    it('should read version pin files and volta pins', async () => {
+      await fs.writeFile(join(dir, '.nvmrc'), 'lts/*\n', 'utf8');
+      await fs.writeFile(join(dir, '.tool-versions'), 'nodejs 18.17.0\n', 'utf8');
+
+      expect(
+        await readVersionPins({
+          path: dir,
+          packageJson: { engines: {}, volta: { node: '16.20.0', extends: '../package.json' } },
+          packageFile: 'package.json',
+        }),
+      ).toEqual([
+        { file: join(dir, '.nvmrc'), source: '.nvmrc', engine: 'node', version: 'lts/*' },
+        { file: join(dir, '.tool-versions'), source: '.tool-versions', engine: 'node', version: '18.17.0' },
+        { file: 'package.json', source: 'volta', engine: 'node', version: '16.20.0' },
+      ]);
+    });
+  });
+
+  describe('getVersionPinStatus', () => {
+    it.each([
+      ['v18.17.0', 'satisfied'],
+      ['16.20.0', 'unsatisfied'],
+      ['18', 'satisfied'],
+      ['16', 'unsatisfied'],
+      ['lts/*', 'unsupported'],
+    ])('should return status of %s pin', (version, expected) => {
+      expect(getVersionPinStatus(version, new Range('^14.17.0 || >=18.0.0'))).toBe(expected);
+    });
+  });
+
+  describe('getVersionPinChecks', () => {
+    const ranges = new Map<EngineConstraintKey, EngineConstraintChange>([
+      ['node', { from: undefined, to: new Range('^14.17.0 || >=18.0.0') }],
+    ]);
+    const pins: VersionPin[] = [
+      { file: '.nvmrc', source: '.nvmrc', engine: 'node', version: '12' },
+      { file: '.node-version', source: '.node-version', engine: 'node', version: '18.0.0' },
+      { file: '.tool-versions', source: '.tool-versions', engine: 'python', version: '3.11.0' },
+    ];
+
+    it('should propose lowest satisfying version of unsatisfied pins', () => {
+      expect(getVersionPinChecks(pins, ranges)).toEqual([
+        { ...pins[0], status: 'unsatisfied', proposed: '14.17.0' },
+        { ...pins[1], status: 'satisfied' },
+      ]);
+    });
+
+    it('should propose selected version', () => {
+      expect(getVersionPinChecks(pins, ranges, { node: '18.17.0' })).toEqual([
+        { ...pins[0], status: 'unsatisfied', proposed: '18.17.0' },
+        { ...pins[1], status: 'satisfied', proposed: '18.17.0' },
+      ]);
+    });
+
+    it('should throw error if selected version does not satisfy computed range', () => {
+      expect(() => getVersionPinChecks(pins, ranges, { node: '16.0.0' })).toThrowError(
+        'Selected node version 16.0.0 does not satisfy computed range ^14.17.0 || >=18.0.0.',
+      );
+    });
+  });
+
+  describe('replaceVersionPin', () => {
+    it('should replace version keeping v prefix', () => {
+      expect(
+        replaceVersionPin(
+          '# node\nv12.22.0\n',
+          { file: '.nvmrc', source: '.nvmrc', engine: 'node', version: 'v12.22.0' },
+          '14.17.0',
+        ),
+      ).toBe('# node\nv14.17.0\n');
+    });
+
+    it('should replace version of .tool-versions line', () => {
+      expect(
+        replaceVersionPin(
+          'yarn 12.0.0\r\nnodejs 12.0.0 10.0.0\r\n',
+          { file: '.tool-versions', source: '.tool-versions', engine: 'node', version: '12.0.0' },
+          '14.17.0',
+        ),
+      ).toBe('yarn 12.0.0\r\nnodejs 14.17.0 10.0.0\r\n');
+    });
+  });
+});
@@ -0,0 +1,144 @@
+import { FSWatcher, watch } from 'node:fs';
+import fs from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { Range } from 'semver';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import type { CheckCommandContext, CLIContext } from '../../lib/types.js';
+import {
+  generateWatchChangesMessage,
+  getWatchedEngineChanges,
+  getWatchedFiles,
+  watchFiles,
+  watchProject,
+} from '../../lib/watch.js';
+
+const createContext = (range: string, culprit?: { path: string; version: string }): CheckCommandContext =>
+  ({
+    rangeStyle: 'preserve',
+    packageObject: { filename: 'package.json' },
+    packageLockObject: {
+      filename: 'package-lock.json',
+      data: { packages: culprit ? { [culprit.path]: { version: culprit.version, engines: {} } } : {} },
+    },
+    ranges: new Map([['node', { from: undefined, to: new Range(range) }]]),
+    explanations: new Map([
+      ['node', { culprits: culprit ? [{ path: culprit.path, range, result: range }] : [], ignored: [], invalid: [] }],
+    ]),
+  } as unknown as CheckCommandContext);
+
+describe('watch', () => {
+  it('should resolve watched package.json and lock file paths', () => {
+    expect(
+      getWatchedFiles({
+        path: 'examples',
+        workingDir: process.cwd(),
+        packageObject: { filename: 'package.json' },
+        packageLockObject: { filename: 'yarn.lock' },
+      }),
+    ).toEqual([join('examples', 'package.json'), join('examples', 'yarn.lock')]);
+  });
+
+  it('should list changed engines with packages causing the change', () => {
+    const previous = createContext('^14.17.0', { path: 'node_modules/lodash', version: '4.17.21' });
+    const current = createContext('^16.14.0', { path: 'node_modules/vite', version: '5.0.0' });
+
+    expect(getWatchedEngineChanges(previous, current)).toEqual([
+      { engine: 'node', from: '^14.17.0', to: '^16.14.0', causes: ['vite@5.0.0'] },
+    ]);
+    expect(getWatchedEngineChanges(previous, previous)).toEqual([]);
+  });
+
+  it('should generate changes message', () => {
+    expect(
+      generateWatchChangesMessage([
+        { engine: 'node', from: '^14.17.0', to: '^16.14.0', causes: ['vite@5.0.0'] },
+        { engine: 'npm', from: '*', to: '>=7.0.0', causes: [] },
+      ]),
+    ).toEqual(
+      `Computed engines range constraints changed since last run:\n` +
+        `  node: ^14.17.0 → ^16.14.0 (caused by vite@5.0.0)\n` +
+        `  npm: * → >=7.0.0`,
+    );
+    expect(generateWatchChangesMessage([])).toEqual(`No computed engines range constraints changed since last run.`);
+  });
+
+  describe('watchFiles', () => {
+    let dir: string;
+
+    beforeEach(async () => {
+      dir = await fs.mkdtemp(join(tmpdir(), 'nce-'));
+      await fs.writeFile(join(dir, 'package-lock.json'), '{}', 'utf8');
+    });
+
+    afterEach(async () => {
+      await fs.rm(dir, { recursive: true, force: true });
+    });
+
+    it('should debounce changes of watched files until aborted', async () => {
+      const controller = new AbortController();
+      const onChange = vi.fn();
+      const changed = new Promise<void>(resolve => onChange.mockImplementation(() => resolve()));
+      const watching = watchFiles({
+        files: [join(dir, 'package-lock.json')],
+        onChange,
+        delay: 50,
+        signal: controller.signal,
+      });
+
+      await fs.writeFile(join(dir, 'README.md'), '', 'utf8');
+      await fs.writeFile(join(dir, 'package-lock.json'), '{ }', 'utf8');
+      await fs.writeFile(join(dir, 'package-lock.json'), '{  }', 'utf8');
+      await changed;
+      controller.abort();
+      await watching;
+
+      expect(onChange).toHaveBeenCalledTimes(1);
+    });
+
+    it('should report watcher error and stop watching', async () => {
+      const controller = new AbortController();
+      const onError = vi.fn();
+      const watchers: FSWatcher[] = [];
+      const watching = watchFiles({
+        files: [join(dir, 'package-lock.json')],
+        onChange: vi.fn(),
+        onError,
+        signal: controller.signal,
+        watchDirectory: (watchedDir, listener) => {
+          const watcher = watch(watchedDir, listener);
+          watchers.push(watcher);
+          return watcher;
+        },
+      });
+      const error = new Error('EMFILE: too many open files, watch');
+
+      watchers.forEach(watcher => watcher.emit('error', error));
+      await watching;
+
+      expect(onError).toHaveBeenCalledWith(error);
+      expect(onError).toHaveBeenCalledTimes(1);
+    });
+
+    it('should run once and rethrow the last error when aborted', async () => {
+      const controller = new AbortController();
+      const write = vi.fn();
+      const run = vi.fn(async (): Promise<CLIContext> => {
+        controller.abort();
+        throw new Error('Conflict');
+      });
+
+      await expect(
+        watchProject({
+          context: { ...createContext('*'), path: dir, workingDir: process.cwd() } as CLIContext,
+          run,
+          signal: controller.signal,
+          write,
+        }),
+      ).rejects.toThrowError('Conflict');
+      expect(run).toHaveBeenCalledTimes(1);
+      expect(write).toHaveBeenCalledWith(expect.stringContaining('for changes...'));
+    });
+  });
+});
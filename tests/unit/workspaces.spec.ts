@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+
+import type { LockPackage } from '../../lib/types.js';
+import {
+  getWorkspacePackages,
+  getWorkspacePaths,
+  getWorkspacesGlobs,
+  resolveDependencyPath,
+} from '../../lib/workspaces.js';
+
+const packages: Record<string, LockPackage> = {
+  '': { engines: {}, name: 'root' },
+  'node_modules/a': { engines: {}, resolved: 'packages/a', link: true },
+  'node_modules/b': { engines: {}, resolved: 'packages/b', link: true },
+  'node_modules/foo': { engines: { node: '>=14.17.0' }, dependencies: { bar: '^1.0.0' } },
+  'node_modules/bar': { engines: { node: '>=12.22.0' } },
+  'node_modules/baz': { engines: { node: '>=18.0.0' }, dev: true, devDependencies: { foo: '^1.0.0' } },
+  'packages/a': { engines: {}, name: 'a', dependencies: { foo: '^1.0.0', bar: '^2.0.0', b: '^1.0.0' } },
+  'packages/a/node_modules/bar': { engines: { node: '>=16.0.0' } },
+  'packages/b': { engines: {}, name: 'b', devDependencies: { baz: '^1.0.0' } },
+};
+
+describe('workspaces', () => {
+  it('should return workspaces globs', () => {
+    expect(getWorkspacesGlobs({ engines: {}, workspaces: ['packages/*'] })).toEqual(['packages/*']);
+    expect(getWorkspacesGlobs({ engines: {}, workspaces: { packages: ['apps/*'] } })).toEqual(['apps/*']);
+    expect(getWorkspacesGlobs({ engines: {} })).toEqual([]);
+  });
+
+  it('should return workspace paths matching globs', () => {
+    expect(getWorkspacePaths(packages, ['./packages/*'])).toEqual(['packages/a', 'packages/b']);
+    expect(getWorkspacePaths(packages, ['packages/b/'])).toEqual(['packages/b']);
+    expect(getWorkspacePaths(packages, ['apps/*'])).toEqual([]);
+  });
+
+  it('should resolve dependency path using node resolution', () => {
+    expect(resolveDependencyPath(packages, 'packages/a', 'bar')).toEqual('packages/a/node_modules/bar');
+    expect(resolveDependencyPath(packages, 'packages/a', 'foo')).toEqual('node_modules/foo');
+    expect(resolveDependencyPath(packages, 'node_modules/foo', 'bar')).toEqual('node_modules/bar');
+    expect(resolveDependencyPath(packages, 'packages/a', 'b')).toEqual('packages/b');
+    expect(resolveDependencyPath(packages, 'packages/a', 'unknown')).toBeUndefined();
+  });
+
+  it('should return workspace dependency closure', () => {
+    expect(Object.keys(getWorkspacePackages(packages, 'packages/a'))).toEqual([
+      'packages/a',
+      'node_modules/foo',
+      'packages/a/node_modules/bar',
+      'packages/b',
+      'node_modules/bar',
+    ]);
+    expect(Object.keys(getWorkspacePackages(packages, 'packages/b'))).toEqual(['packages/b', 'node_modules/baz']);
+  });
+});
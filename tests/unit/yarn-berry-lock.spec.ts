@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+
+import { isYarnBerryLock, parseYarnBerryLock } from '../../lib/yarn-berry-lock.js';
+
+const yarnBerryLock = `# This file is generated by running "yarn install" inside your project.
+# Manual changes might be lost - proceed with caution!
+
+__metadata:
+  version: 6
+  cacheKey: 8
+
+"@scope/foo@npm:^1.0.0, @scope/foo@npm:^1.1.0":
+  version: 1.2.0
+  resolution: "@scope/foo@npm:1.2.0"
+  dependencies:
+    bar: ^2.0.0
+  checksum: 0123456789abcdef
+  languageName: node
+  linkType: hard
+
+"bar@npm:^2.0.0":
+  version: 2.1.0
+  resolution: "bar@npm:2.1.0"
+  engines:
+    node: ">=14.17.0"
+  checksum: fedcba9876543210
+  languageName: node
+  linkType: hard
+
+"example@workspace:.":
+  version: 0.0.0-use.local
+  resolution: "example@workspace:."
+  languageName: unknown
+  linkType: soft
+`;
+
+describe('yarn-berry-lock', () => {
+  it('should detect yarn berry lock file', () => {
+    expect(isYarnBerryLock(yarnBerryLock)).toEqual(true);
+    expect(isYarnBerryLock('# yarn lockfile v1\n\nfoo@^1.0.0:\n  version "1.0.0"\n')).toEqual(false);
+  });
+
+  it('should parse yarn berry lock entries & skip workspaces', () => {
+    expect(parseYarnBerryLock(yarnBerryLock)).toEqual([
+      { name: '@scope/foo', version: '1.2.0' },
+      { name: 'bar', version: '2.1.0', engines: { node: '>=14.17.0' } },
+    ]);
+  });
+
+  it('should throw error if __metadata.version is not defined', () => {
+    expect(() => parseYarnBerryLock('__metadata:\n  cacheKey: 8\n')).toThrowError(
+      'yarn.lock does not contain __metadata.version property.',
+    );
+  });
+});
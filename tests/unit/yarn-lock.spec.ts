@@ -0,0 +1,85 @@
+import type { Debugger } from 'debug';
+import { describe, expect, it, vi } from 'vitest';
+
+import { getPackageNameFromDescriptor, parseYarnLock, yarnLockToPackages } from '../../lib/yarn-lock.js';
+
+const yarnLock = `# THIS IS AN AUTOGENERATED FILE. DO NOT EDIT THIS FILE DIRECTLY.
+# yarn lockfile v1
+
+
+"@scope/foo@^1.0.0", "@scope/foo@^1.1.0":
+  version "1.2.0"
+  dependencies:
+    bar "^2.0.0"
+
+bar@^2.0.0:
+  version "2.1.0"
+
+bar@^1.0.0:
+  version "1.0.0"
+`;
+
+describe('yarn-lock', () => {
+  it('should return package name from descriptor', () => {
+    expect(getPackageNameFromDescriptor('foo@^1.0.0')).toEqual('foo');
+    expect(getPackageNameFromDescriptor('@scope/foo@^1.0.0')).toEqual('@scope/foo');
+    expect(getPackageNameFromDescriptor('foo')).toEqual('foo');
+  });
+
+  it('should parse yarn.lock entries', () => {
+    expect(parseYarnLock(yarnLock)).toEqual([
+      { name: '@scope/foo', version: '1.2.0' },
+      { name: 'bar', version: '2.1.0' },
+      { name: 'bar', version: '1.0.0' },
+    ]);
+  });
+
+  it('should throw error if yarn.lock contains merge conflicts', () => {
+    expect(() =>
+      parseYarnLock(`<<<<<<< HEAD
+foo@^1.0.0:
+  version "1.0.0"
+=======
+foo@^1.0.0:
+  version "1.1.0"
+>>>>>>> branch
+`),
+    ).toThrowError('yarn.lock contains merge conflicts.');
+  });
+
+  it('should convert entries to packages using installed manifests', () => {
+    const manifests = new Map([
+      ['node_modules/@scope/foo', { name: '@scope/foo', version: '1.2.0', engines: { node: '>=14.17.0' } }],
+      ['node_modules/bar', { name: 'bar', version: '2.1.0', engines: { node: '>=12.22.0' } }],
+      ['node_modules/@scope/foo/node_modules/bar', { name: 'bar', version: '2.1.0' }],
+    ]);
+
+    expect(
+      yarnLockToPackages({
+        entries: parseYarnLock(yarnLock),
+        manifests,
+        debug: vi.fn() as unknown as Debugger,
+      }),
+    ).toEqual({
+      'node_modules/@scope/foo': { engines: { node: '>=14.17.0' } },
+      'node_modules/bar': { engines: { node: '>=12.22.0' } },
+      'bar@1.0.0': { engines: {} },
+    });
+  });
+
+  it('should prefer engines defined in entries over installed manifests', () => {
+    expect(
+      yarnLockToPackages({
+        entries: [
+          { name: 'foo', version: '1.0.0', engines: { node: '>=16.0.0' } },
+          { name: 'bar', version: '1.0.0', engines: { node: '>=14.0.0' } },
+        ],
+        manifests: new Map([['node_modules/foo', { name: 'foo', version: '1.0.0', engines: { node: '>=12.0.0' } }]]),
+        debug: vi.fn() as unknown as Debugger,
+      }),
+    ).toEqual({
+      'node_modules/foo': { engines: { node: '>=16.0.0' } },
+      'bar@1.0.0': { engines: { node: '>=14.0.0' } },
+    });
+  });
+});